@@ -1,5 +1,12 @@
 // Import for type checking - used in generated code strings
 import { createStateMachine as _createStateMachine } from "../state/state-machine.js";
+import {
+  analyzeMachine,
+  toMermaid,
+  MachineAnalysis,
+  MachineSource,
+} from "../state/machine-graph.js";
+import { createTestPlan, CoverageReport } from "../state/machine-testing.js";
 
 export interface StateMachinePrompt {
   description: string;
@@ -19,6 +26,8 @@ export interface GeneratedStateMachine {
     action?: string;
   }>;
   code: string;
+  /** Mermaid state diagram of the machine, for review */
+  diagram: string;
   suggestions: string[];
 }
 
@@ -49,6 +58,7 @@ export function createStateMachineFromPrompt(
     events: stateMachine.events,
     transitions: stateMachine.transitions,
     code,
+    diagram: toMermaid(stateMachine),
     suggestions: generateSuggestions(stateMachine, context),
   };
 }
@@ -386,43 +396,59 @@ export function generateMultipleStateMachines(
   return descriptions.map((desc) => createStateMachineFromPrompt(desc));
 }
 
-/**
- * Validate generated state machine
- */
-export function validateStateMachine(stateMachine: GeneratedStateMachine): {
+export interface StateMachineValidation extends MachineAnalysis {
   isValid: boolean;
   errors: string[];
   warnings: string[];
-} {
-  const errors: string[] = [];
-  const warnings: string[] = [];
+  /** What the paths of a generated test plan reach, when asked for */
+  coverage?: CoverageReport;
+}
 
-  // Check for orphaned states
-  const reachableStates = new Set(["idle"]);
-  stateMachine.transitions.forEach((t) => {
-    reachableStates.add(t.to);
-  });
+export interface StateMachineValidationOptions {
+  /**
+   * Explores the machine with a test plan to report coverage. That runs its
+   * guards and actions, so it is off by default.
+   */
+  coverage?: boolean;
+}
 
-  stateMachine.states.forEach((state) => {
-    if (!reachableStates.has(state)) {
-      warnings.push(`State '${state}' may not be reachable`);
-    }
-  });
+/**
+ * Validate generated state machine, or any machine or machine config.
+ * The checks are structural and run none of the machine's code.
+ */
+export function validateStateMachine(
+  stateMachine: GeneratedStateMachine | MachineSource,
+  options: StateMachineValidationOptions = {},
+): StateMachineValidation {
+  const errors: string[] = [];
+  const warnings: string[] = [];
 
-  // Check for missing initial state
-  if (!stateMachine.states.includes("idle")) {
+  // Generated code always starts in idle
+  if (isGenerated(stateMachine) && !stateMachine.states.includes("idle")) {
     errors.push("Missing initial state (idle)");
   }
 
-  // Check for unreachable states
-  const hasIncomingTransitions = new Set();
-  stateMachine.transitions.forEach((t) => {
-    hasIncomingTransitions.add(t.to);
+  const analysis = analyzeMachine(stateMachine);
+
+  analysis.unreachableStates.forEach((state) => {
+    errors.push(`State '${state}' is unreachable from the initial state`);
   });
 
-  stateMachine.states.forEach((state) => {
-    if (!hasIncomingTransitions.has(state) && state !== "idle") {
-      errors.push(`State '${state}' has no incoming transitions`);
+  analysis.deadStates.forEach((state) => {
+    warnings.push(
+      `State '${state}' has no way out; make it a final state or add a transition`,
+    );
+  });
+
+  analysis.nondeterministic.forEach(({ state, event, count, guarded }) => {
+    if (guarded) {
+      warnings.push(
+        `State '${state}' has ${count} guarded transitions on '${event}'; the first whose guard passes wins`,
+      );
+    } else {
+      errors.push(
+        `State '${state}' has ${count} transitions on '${event}' that aren't told apart by guards`,
+      );
     }
   });
 
@@ -430,5 +456,15 @@ export function validateStateMachine(stateMachine: GeneratedStateMachine): {
     isValid: errors.length === 0,
     errors,
     warnings,
+    ...analysis,
+    coverage: options.coverage
+      ? createTestPlan(stateMachine).coverage
+      : undefined,
   };
 }
+
+function isGenerated(
+  stateMachine: GeneratedStateMachine | MachineSource,
+): stateMachine is GeneratedStateMachine {
+  return typeof (stateMachine as GeneratedStateMachine).code === "string";
+}
@@ -1,4 +1,5 @@
-import { createReactiveState } from "../state/reactive-state.js";
+import { createReactiveState, ReactiveState } from "../state/reactive-state.js";
+import { Schema, SchemaIssue, SchemaValidationError } from "../state/schema.js";
 
 export interface BackendConfig {
   type: "cloudflare-d1" | "postgres" | "dynamodb" | "mongodb" | "redis";
@@ -37,6 +38,8 @@ export interface ReactiveBackendBinding<T> {
     timestamp: Date;
     resolved: boolean;
   }>;
+  /** Issues found in the last value received from the backend */
+  validationErrors: ReactiveState<SchemaIssue[]>;
 }
 
 /**
@@ -47,6 +50,7 @@ export function createReactiveBackendBinding<T>(
   key: string,
   initialValue: T,
   config: BackendConfig,
+  schema?: Schema<T>,
 ): ReactiveBackendBinding<T> {
   // Local reactive state
   const localState = createReactiveState<SharedState<T>>({
@@ -59,13 +63,23 @@ export function createReactiveBackendBinding<T>(
   // Backend connection (simulated for now)
   const backendConnection = createBackendConnection(config);
 
+  // Malformed backend data is kept out of local state
+  const validationErrors = createReactiveState<SchemaIssue[]>([]);
+
   // Sync state with backend
   const syncWithBackend = async (): Promise<void> => {
     try {
       localState.setValue((prev) => ({ ...prev, isSyncing: true }));
 
       // Fetch from backend
-      const backendValue = await backendConnection.get(key);
+      const received = await backendConnection.get(key);
+      let backendValue: T | undefined = received;
+
+      if (schema && received !== undefined) {
+        const result = schema.safeParse(received);
+        validationErrors.setValue(result.success ? [] : result.issues);
+        backendValue = result.success ? result.value : undefined;
+      }
 
       if (backendValue !== undefined) {
         const currentValue = localState.value().value;
@@ -106,6 +120,14 @@ export function createReactiveBackendBinding<T>(
 
   // Set value locally and sync to backend
   const setValue = async (_value: T): Promise<void> => {
+    if (schema) {
+      const result = schema.safeParse(_value);
+      if (!result.success) {
+        throw new SchemaValidationError(result.issues);
+      }
+      _value = result.value;
+    }
+
     // Update local state immediately
     localState.setValue((prev) => ({ ...prev, value: _value }));
 
@@ -194,24 +216,24 @@ export function createReactiveBackendBinding<T>(
     sync: syncWithBackend,
     resolveConflict,
     getConflicts,
+    validationErrors,
   };
 }
 
+// Simulated backend connections, shared by every binding of the same type
+// In a real implementation, these would connect to actual databases
+const connections: Record<string, Map<string, any>> = {
+  "cloudflare-d1": new Map(),
+  postgres: new Map(),
+  dynamodb: new Map(),
+  mongodb: new Map(),
+  redis: new Map(),
+};
+
 /**
  * Creates a backend connection based on configuration
  */
 function createBackendConnection(config: BackendConfig) {
-  // Simulated backend connections
-  // In a real implementation, these would connect to actual databases
-
-  const connections: Record<string, Map<string, any>> = {
-    "cloudflare-d1": new Map(),
-    postgres: new Map(),
-    dynamodb: new Map(),
-    mongodb: new Map(),
-    redis: new Map(),
-  };
-
   const connection = connections[config.type] || connections["cloudflare-d1"];
 
   return {
@@ -330,11 +352,17 @@ export function createCRDTBackendBinding<T>(
   key: string,
   initialValue: T,
   config: BackendConfig,
+  schema?: Schema<T>,
 ): ReactiveBackendBinding<T> {
   // CRDT implementation would go here
   // For now, we'll use the standard binding
-  return createReactiveBackendBinding(key, initialValue, {
-    ...config,
-    conflictResolution: "crdt",
-  });
+  return createReactiveBackendBinding(
+    key,
+    initialValue,
+    {
+      ...config,
+      conflictResolution: "crdt",
+    },
+    schema,
+  );
 }
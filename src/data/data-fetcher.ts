@@ -31,6 +31,10 @@ export interface DataFetcher {
   useQuery: <T>(_url: string, _options?: FetchOptions) => FetchResult<T>;
   invalidateTag: (_tag: string) => Promise<void>;
   getCacheStats: () => CacheStats;
+  /** Exports the cache so a server render can hand it to the client */
+  dehydrate: () => DehydratedCache;
+  /** Imports a cache exported by `dehydrate`, keeping newer local entries */
+  hydrate: (_cache: DehydratedCache) => void;
 }
 
 export interface CacheStats {
@@ -39,6 +43,8 @@ export interface CacheStats {
   memoryUsage: number;
 }
 
+export type DehydratedCache = Record<string, CacheEntry>;
+
 // Cache implementation
 class DataCache {
   private cache = new Map<string, CacheEntry>();
@@ -67,6 +73,19 @@ class DataCache {
     }
   }
 
+  dehydrate(): DehydratedCache {
+    return Object.fromEntries(this.cache);
+  }
+
+  hydrate(entries: DehydratedCache) {
+    for (const [key, entry] of Object.entries(entries)) {
+      const existing = this.cache.get(key);
+      if (!existing || existing.timestamp < entry.timestamp) {
+        this.cache.set(key, entry);
+      }
+    }
+  }
+
   getStats(): CacheStats {
     return {
       totalEntries: this.cache.size,
@@ -76,7 +95,7 @@ class DataCache {
   }
 }
 
-interface CacheEntry {
+export interface CacheEntry {
   data: any;
   timestamp: number;
   revalidateAt?: number;
@@ -350,6 +369,20 @@ export function createDataFetcher(): DataFetcher {
     return globalCache.getStats();
   };
 
+  /**
+   * Export the cache for transfer to the client
+   */
+  const dehydrate = (): DehydratedCache => {
+    return globalCache.dehydrate();
+  };
+
+  /**
+   * Import a cache exported on the server
+   */
+  const hydrate = (cache: DehydratedCache): void => {
+    globalCache.hydrate(cache);
+  };
+
   return {
     fetch: smartFetch,
     fetchSSR,
@@ -358,6 +391,8 @@ export function createDataFetcher(): DataFetcher {
     useQuery,
     invalidateTag,
     getCacheStats,
+    dehydrate,
+    hydrate,
   };
 }
 
@@ -423,3 +458,13 @@ export const getCacheStats = (): CacheStats => {
   const fetcher = createDataFetcher();
   return fetcher.getCacheStats();
 };
+
+export const dehydrateCache = (): DehydratedCache => {
+  const fetcher = createDataFetcher();
+  return fetcher.dehydrate();
+};
+
+export const hydrateCache = (cache: DehydratedCache): void => {
+  const fetcher = createDataFetcher();
+  fetcher.hydrate(cache);
+};
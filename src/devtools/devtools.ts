@@ -1,4 +1,9 @@
-import { createReactiveState } from "../state/reactive-state.js";
+import { addStateMiddleware } from "../state/middleware.js";
+import {
+  createReactiveState,
+  ReactiveState,
+  untrack,
+} from "../state/reactive-state.js";
 
 export interface DevToolsPanel {
   id: string;
@@ -17,6 +22,11 @@ export interface DevTools {
   getStateSnapshot: () => StateSnapshot;
   getPerformanceMetrics: () => PerformanceMetrics;
   getRouteInfo: () => RouteInfo;
+  /**
+   * Feeds the state panel from every reactive state write; returns a
+   * function that stops tracking once every caller has called theirs
+   */
+  trackStateWrites: () => () => void;
 }
 
 export interface StateSnapshot {
@@ -75,34 +85,54 @@ export interface RouteTreeNode {
  * Creates a comprehensive DevTools system for React Meta Framework
  */
 export function createDevTools(): DevTools {
-  const isOpen = createReactiveState(false);
-  const activePanel = createReactiveState("state");
+  // DevTools' own states stay out of the write tracking below
+  const internal = { intercept: false };
+  const isOpen = createReactiveState(false, internal);
+  const activePanel = createReactiveState("state", internal);
 
   // Performance monitoring
-  const performanceMetrics = createReactiveState<PerformanceMetrics>({
-    renderCount: 0,
-    averageRenderTime: 0,
-    memoryUsage: 0,
-    cacheHitRate: 0,
-    revalidationCount: 0,
-  });
+  const performanceMetrics = createReactiveState<PerformanceMetrics>(
+    {
+      renderCount: 0,
+      averageRenderTime: 0,
+      memoryUsage: 0,
+      cacheHitRate: 0,
+      revalidationCount: 0,
+    },
+    internal,
+  );
 
   // State tracking
-  const stateSnapshot = createReactiveState<StateSnapshot>({
-    reactiveStates: [],
-    derivedStates: [],
-    dependencies: { nodes: new Map(), edges: [] },
-    timestamp: Date.now(),
-  });
+  const stateSnapshot = createReactiveState<StateSnapshot>(
+    {
+      reactiveStates: [],
+      derivedStates: [],
+      dependencies: { nodes: new Map(), edges: [] },
+      timestamp: Date.now(),
+    },
+    internal,
+  );
 
   // Route tracking
-  const routeInfo = createReactiveState<RouteInfo>({
-    currentRoute: "",
-    matchedRoute: "",
-    params: {},
-    navigationHistory: [],
-    routeTree: [],
-  });
+  const routeInfo = createReactiveState<RouteInfo>(
+    {
+      currentRoute: "",
+      matchedRoute: "",
+      params: {},
+      navigationHistory: [],
+      routeTree: [],
+    },
+    internal,
+  );
+
+  // States seen by the write-tracking middleware. Held weakly, so tracking
+  // doesn't keep states alive that the app has dropped.
+  const trackedStates = new WeakMap<ReactiveState<any>, ReactiveStateInfo>();
+  const trackedRefs = new Set<WeakRef<ReactiveState<any>>>();
+  const nameCounts = new Map<string, number>();
+  let unnamedCount = 0;
+  let trackingUsers = 0;
+  let removeTrackingMiddleware = () => {};
 
   const panels: DevToolsPanel[] = [
     {
@@ -158,18 +188,21 @@ export function createDevTools(): DevTools {
    * Updates the state snapshot with current reactive state information
    */
   const updateStateSnapshot = () => {
-    // This would be populated by the actual reactive state system
-    // For now, we'll create a mock snapshot
+    // Derived states and the graph are still mocked; written states are
+    // real once write tracking is on
     const snapshot: StateSnapshot = {
-      reactiveStates: [
-        {
-          id: "counter",
-          value: 0,
-          subscribers: 2,
-          lastUpdate: Date.now(),
-          tags: ["ui", "counter"],
-        },
-      ],
+      reactiveStates:
+        trackingUsers > 0
+          ? readTrackedStates()
+          : [
+              {
+                id: "counter",
+                value: 0,
+                subscribers: 2,
+                lastUpdate: Date.now(),
+                tags: ["ui", "counter"],
+              },
+            ],
       derivedStates: [
         {
           id: "doubled",
@@ -228,6 +261,69 @@ export function createDevTools(): DevTools {
     return routeInfo.value();
   };
 
+  /**
+   * Tracked states that are still alive, in the order they were first written
+   */
+  const readTrackedStates = () => {
+    const states: ReactiveStateInfo[] = [];
+    trackedRefs.forEach((ref) => {
+      const state = ref.deref();
+      const info = state && trackedStates.get(state);
+      if (info) {
+        states.push(info);
+      } else {
+        trackedRefs.delete(ref);
+      }
+    });
+    return states;
+  };
+
+  /**
+   * Gives every tracked state its own id; states sharing a name are
+   * numbered from the second one on
+   */
+  const createStateId = (name: string | undefined) => {
+    if (name === undefined) return `state-${++unnamedCount}`;
+    const count = (nameCounts.get(name) ?? 0) + 1;
+    nameCounts.set(name, count);
+    return count === 1 ? name : `${name}-${count}`;
+  };
+
+  /**
+   * Records writes through a global state middleware. Calling it again while
+   * tracking is on reuses the same middleware; tracking stops once every
+   * returned function has been called.
+   */
+  const trackStateWrites = () => {
+    if (trackingUsers++ === 0) {
+      removeTrackingMiddleware = addStateMiddleware((write, next) => {
+        next(write.value);
+
+        const previous = trackedStates.get(write.state);
+        if (!previous) trackedRefs.add(new WeakRef(write.state));
+
+        trackedStates.set(write.state, {
+          id: previous?.id ?? createStateId(write.name),
+          value: untrack(write.state.value),
+          // Subscriber counts aren't visible to middleware
+          subscribers: previous?.subscribers ?? 0,
+          lastUpdate: Date.now(),
+        });
+
+        if (untrack(isOpen.value)) {
+          updateStateSnapshot();
+        }
+      });
+    }
+
+    let isStopped = false;
+    return () => {
+      if (isStopped) return;
+      isStopped = true;
+      if (--trackingUsers === 0) removeTrackingMiddleware();
+    };
+  };
+
   return {
     isOpen: isOpen.value(),
     activePanel: activePanel.value(),
@@ -238,6 +334,7 @@ export function createDevTools(): DevTools {
     getStateSnapshot,
     getPerformanceMetrics,
     getRouteInfo,
+    trackStateWrites,
   };
 }
 
@@ -359,6 +456,7 @@ export const performanceMonitor = {
 export function initializeDevTools() {
   if (process.env.NODE_ENV === "development") {
     const devTools = createDevTools();
+    devTools.trackStateWrites();
 
     // Add global access for debugging
     if (typeof globalThis !== "undefined" && "window" in globalThis) {
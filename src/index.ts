@@ -6,21 +6,221 @@ export {
   createSelector,
   createMemoizedSelector,
   createDerivedState,
+  createCombinedState,
   batch,
+  untrack,
+  createScope,
+  createRoot,
+  getCurrentScope,
+  onCleanup,
+  configureScheduler,
+  flushEffects,
 } from "./state/reactive-state.js";
+export type {
+  ReactiveState,
+  ReactiveValues,
+  StateOptions,
+  ReactiveStateOptions,
+  BatchOptions,
+  ReactiveScope,
+  ScopeOptions,
+  EffectOptions,
+  SchedulerConfig,
+} from "./state/reactive-state.js";
+export type {
+  Scheduler,
+  SchedulerKind,
+  SchedulerOption,
+  EffectPriority,
+} from "./state/scheduler.js";
+export {
+  addStateMiddleware,
+  StateWriteRejectedError,
+} from "./state/middleware.js";
+export type { StateMiddleware, StateWrite } from "./state/middleware.js";
+export { shallowEqual, deepEqual, structuralEqual } from "./state/equality.js";
+export type { EqualityFn, EqualityOption } from "./state/equality.js";
+export {
+  persistState,
+  createLocalStorageAdapter,
+  createSessionStorageAdapter,
+  createMemoryStorageAdapter,
+  createFileStorageAdapter,
+} from "./state/persistence.js";
+export type {
+  StorageAdapter,
+  PersistOptions,
+  PersistedState,
+} from "./state/persistence.js";
+export {
+  schema,
+  createValidatedState,
+  formatIssues,
+  SchemaValidationError,
+} from "./state/schema.js";
+export type {
+  Schema,
+  Infer,
+  SchemaIssue,
+  SchemaPath,
+  SchemaResult,
+  StringSchemaOptions,
+  NumberSchemaOptions,
+  ArraySchemaOptions,
+  ValidatedState,
+  ValidatedStateOptions,
+} from "./state/schema.js";
+export {
+  createStateRegistry,
+  serializeValue,
+  deserializeValue,
+} from "./state/hydration.js";
+export type {
+  StateRegistry,
+  StateRegistryOptions,
+  HydrationTarget,
+  HydrationMismatch,
+  HydrationMismatchKind,
+  HydrationScriptOptions,
+} from "./state/hydration.js";
+export {
+  createReactiveMap,
+  createReactiveSet,
+  createReactiveArray,
+  mapArray,
+} from "./state/collections.js";
+export type {
+  ReactiveMap,
+  ReactiveSet,
+  ReactiveArray,
+  MapChange,
+  SetChange,
+  ArrayChange,
+  CollectionOptions,
+  ReactiveArrayOptions,
+} from "./state/collections.js";
+export { createStore } from "./state/store.js";
+export type { Store, SetStoreFunction } from "./state/store.js";
+export { createResource } from "./state/resource.js";
+export type {
+  Resource,
+  ResourceState,
+  ResourceFetcherInfo,
+  ResourceOptions,
+} from "./state/resource.js";
+export { createHistory } from "./state/history.js";
+export type {
+  HistoryEntry,
+  HistoryOptions,
+  StateHistory,
+} from "./state/history.js";
 export {
   createStateMachine,
   createToggleMachine,
   createLoadingMachine,
+  assign,
+  persistMachine,
+  createReactiveMachine,
+} from "./state/state-machine.js";
+export type {
+  StateMachine,
+  StateTransition,
+  EventPayloads,
+  LoadingContext,
+  MachineSnapshotStore,
+  ReactiveMachine,
 } from "./state/state-machine.js";
+export type {
+  StateValue,
+  MachineConfig,
+  MachineEvent,
+  MachineAction,
+  MachineGuard,
+  MachineSnapshot,
+  AssignAction,
+  InvokeConfig,
+  InvokeHelpers,
+  InvokeSource,
+  StateNodeConfig,
+  StateNodeType,
+  TransitionConfig,
+  TransitionsConfig,
+  TransitionDefinition,
+} from "./state/statechart.js";
+
+export {
+  createActorSystem,
+  actorDoneEvent,
+  actorErrorEvent,
+} from "./state/actor-system.js";
+export type {
+  ActorBehavior,
+  ActorInfo,
+  ActorRef,
+  ActorScope,
+  ActorStatus,
+  ActorSystem,
+  ActorSystemEvent,
+  SpawnOptions,
+  SupervisionStrategy,
+} from "./state/actor-system.js";
+
+export {
+  toMachineGraph,
+  toMermaid,
+  toDot,
+  toSCXML,
+  fromSCXML,
+  analyzeMachine,
+} from "./state/machine-graph.js";
+export type {
+  MachineGraph,
+  MachineGraphNode,
+  MachineGraphTransition,
+  MachineSource,
+  FlatMachineDefinition,
+  SCXMLImportOptions,
+  MachineAnalysis,
+  NondeterministicTransition,
+} from "./state/machine-graph.js";
+export {
+  createTestPlan,
+  runTestPath,
+  toVitestSource,
+  toExecutableConfig,
+} from "./state/machine-testing.js";
+export type {
+  TestPlan,
+  TestPath,
+  TestStep,
+  TestPlanOptions,
+  CoverageItem,
+  CoverageReport,
+  VitestSourceOptions,
+} from "./state/machine-testing.js";
+
+// React bindings
+export {
+  useValue,
+  useSelector,
+  useComputed,
+  useResource,
+} from "./react/reactive-hooks.js";
 
 // Routing
 export {
   createRouter,
   createRouteConfig,
   generateRoutes,
+  RouteConflictError,
+} from "./routing/router.js";
+export type {
+  PathParams,
+  Route,
+  RouteConfig,
+  RouteConflict,
+  RouteParams,
 } from "./routing/router.js";
-export type { Route, RouteConfig } from "./routing/router.js";
 
 // Data fetching
 export {
@@ -29,8 +229,15 @@ export {
   useQuery,
   invalidateTag,
   getCacheStats,
+  dehydrateCache,
+  hydrateCache,
+} from "./data/data-fetcher.js";
+export type {
+  FetchResult,
+  CacheStats,
+  CacheEntry,
+  DehydratedCache,
 } from "./data/data-fetcher.js";
-export type { FetchResult, CacheStats } from "./data/data-fetcher.js";
 
 // DevTools
 export {
@@ -109,6 +316,8 @@ export {
 export type {
   StateMachinePrompt,
   GeneratedStateMachine,
+  StateMachineValidation,
+  StateMachineValidationOptions,
 } from "./ai/state-machine-generator.js";
 
 export { createPerformanceProfiler } from "./performance/performance-profiler.js";
@@ -0,0 +1,155 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useSyncExternalStore,
+} from "react";
+import {
+  createComputed,
+  createScope,
+  untrack,
+  ReactiveState,
+} from "../state/reactive-state.js";
+import { Resource } from "../state/resource.js";
+
+/**
+ * Returns a stable useSyncExternalStore subscribe function for `state`
+ */
+function useStateSubscription<T>(state: ReactiveState<T>) {
+  return useCallback(
+    (_onStoreChange: () => void) => {
+      const unsubscribe = state.subscribe(() => _onStoreChange());
+      return () => {
+        unsubscribe();
+      };
+    },
+    [state],
+  );
+}
+
+/**
+ * Subscribes a component to a reactive state and returns its current value.
+ * Built on useSyncExternalStore, so reads are tear-free under concurrent
+ * rendering and the same value is used for server rendering and hydration.
+ */
+export function useValue<T>(state: ReactiveState<T>): T {
+  const subscribe = useStateSubscription(state);
+
+  // Rendering must never register the component as a dependency of
+  // whatever computation happens to be running
+  const getSnapshot = useCallback(() => untrack(() => state.value()), [state]);
+
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
+
+/**
+ * Subscribes a component to a slice of a reactive state. The component only
+ * re-renders when `equalityFn` reports that the selected slice changed.
+ */
+export function useSelector<T, U>(
+  state: ReactiveState<T>,
+  selector: (_value: T) => U,
+  equalityFn: (_a: U, _b: U) => boolean = Object.is,
+): U {
+  const subscribe = useStateSubscription(state);
+
+  // The last committed selection, so equal slices keep their identity even
+  // when an inline selector is recreated on every render
+  const committedRef = useRef<{ selection: U } | null>(null);
+
+  const getSnapshot = useMemo(() => {
+    let memo: { source: T; selection: U } | null = null;
+
+    return () => {
+      const source = untrack(() => state.value());
+      if (memo && Object.is(memo.source, source)) {
+        return memo.selection;
+      }
+
+      const nextSelection = selector(source);
+      const committed = committedRef.current;
+      const selection =
+        committed && equalityFn(committed.selection, nextSelection)
+          ? committed.selection
+          : nextSelection;
+
+      memo = { source, selection };
+      return selection;
+    };
+  }, [state, selector, equalityFn]);
+
+  const selection = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  useEffect(() => {
+    committedRef.current = { selection };
+  }, [selection]);
+
+  return selection;
+}
+
+/**
+ * Derives a value from any reactive states read inside `fn` and re-renders
+ * when it changes. `deps` lists the props or local values `fn` closes over.
+ *
+ * The underlying computed is created when React subscribes and disposed when
+ * it unsubscribes, so renders that are thrown away never leave it attached
+ * to its sources.
+ */
+export function useComputed<T>(fn: () => T, deps: readonly unknown[] = []): T {
+  const compute = useMemo(() => fn, deps);
+  const liveRef = useRef<{
+    compute: () => T;
+    state: ReactiveState<T>;
+  } | null>(null);
+
+  // Used until the component subscribes, and for server rendering
+  const initialValue = useMemo(() => untrack(compute), [compute]);
+
+  const subscribe = useCallback(
+    (_onStoreChange: () => void) => {
+      const scope = createScope({ detached: true });
+      const state = scope.run(() => createComputed(compute));
+      liveRef.current = { compute, state };
+      const unsubscribe = state.subscribe(() => _onStoreChange());
+
+      return () => {
+        unsubscribe();
+        scope.dispose();
+        if (liveRef.current?.state === state) {
+          liveRef.current = null;
+        }
+      };
+    },
+    [compute],
+  );
+
+  const getSnapshot = useCallback(() => {
+    const live = liveRef.current;
+    return live && live.compute === compute
+      ? untrack(() => live.state.value())
+      : initialValue;
+  }, [compute, initialValue]);
+
+  const getServerSnapshot = useCallback(() => initialValue, [initialValue]);
+
+  return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+}
+
+/**
+ * Reads a resource inside a Suspense boundary. Suspends while the first
+ * value is loading and throws the fetch error to the nearest error
+ * boundary; later refetches keep showing the previous value.
+ */
+export function useResource<T>(resource: Resource<T>): T | undefined {
+  const { value, loading, error, promise } = useValue(resource.state);
+
+  if (error !== undefined) {
+    throw error;
+  }
+  if (loading && value === undefined && promise) {
+    throw promise;
+  }
+
+  return value;
+}
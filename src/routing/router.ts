@@ -1,10 +1,41 @@
 import fs from "fs-extra";
 import path from "path";
 
-export interface Route {
-  path: string;
+/**
+ * Params of a matched route. Catch-all segments match several path
+ * segments and produce arrays; an optional catch-all that matched nothing
+ * produces an empty one.
+ */
+export type RouteParams = Record<string, string | string[]>;
+
+type SegmentParams<S extends string> = S extends `:${infer Name}...?`
+  ? Record<Name, string[]>
+  : S extends `:${infer Name}...`
+    ? Record<Name, string[]>
+    : S extends `:${infer Name}`
+      ? Record<Name, string>
+      : Record<never, never>;
+
+type SplitParams<P extends string> = P extends `${infer Head}/${infer Rest}`
+  ? SegmentParams<Head> & SplitParams<Rest>
+  : SegmentParams<P>;
+
+/**
+ * Params of a route path, e.g. `PathParams<"/docs/:version/:slug...">` is
+ * `{ version: string; slug: string[] }`
+ */
+export type PathParams<P extends string> = string extends P
+  ? RouteParams
+  : { [K in keyof SplitParams<P>]: SplitParams<P>[K] };
+
+export interface Route<P extends string = string> {
+  /**
+   * URL pattern: `:name` for a dynamic segment, `:name...` for a catch-all
+   * and `:name...?` for an optional catch-all
+   */
+  path: P;
   component: string;
-  params?: Record<string, string>;
+  params?: PathParams<P>;
   children?: Route[];
   dynamic?: boolean;
   catchAll?: boolean;
@@ -19,20 +50,221 @@ export interface Router {
   goBack: () => void;
   goForward: () => void;
   generateRoutes: (_pagesDir: string) => Promise<Route[]>;
-  matchRoute: (_pathname: string) => Route | null;
+  /**
+   * Finds the route for a pathname. Pass the route path you expect, e.g.
+   * `matchRoute<"/users/:id">(pathname)`, to type its params.
+   */
+  matchRoute: <P extends string = string>(_pathname: string) => Route<P> | null;
 }
 
 export interface RouteConfig {
   pagesDir: string;
   layoutsDir?: string;
   conventions?: {
+    /**
+     * @deprecated Every `[name]`, `[...name]` and `[[...name]]` segment is
+     * recognized; this list is ignored
+     */
     dynamicSegments?: string[];
+    /** @deprecated See `dynamicSegments` */
     catchAllSegments?: string[];
     layoutFiles?: string[];
     indexFiles?: string[];
   };
 }
 
+type SegmentKind =
+  | "static"
+  | "dynamic"
+  | "catch-all"
+  | "optional-catch-all"
+  | "group";
+
+/**
+ * Reads a file or directory name: `[id]`, `[...slug]`, `[[...slug]]`, a
+ * route group such as `(marketing)`, or anything else as a static segment
+ */
+function parseSegment(segment: string): { kind: SegmentKind; name: string } {
+  const patterns: [SegmentKind, RegExp][] = [
+    ["optional-catch-all", /^\[\[\.\.\.([^[\]/]+)\]\]$/],
+    ["catch-all", /^\[\.\.\.([^[\]/]+)\]$/],
+    ["dynamic", /^\[([^[\]./]+)\]$/],
+    ["group", /^\(([^()/]+)\)$/],
+  ];
+
+  for (const [kind, pattern] of patterns) {
+    const match = segment.match(pattern);
+    if (match) return { kind, name: match[1] };
+  }
+  return { kind: "static", name: segment };
+}
+
+/**
+ * Appends a file or directory name to a route path. Route groups leave the
+ * path unchanged.
+ */
+function appendSegment(routePath: string, segment: string): string {
+  const { kind, name } = parseSegment(segment);
+  const suffix = {
+    static: name,
+    dynamic: `:${name}`,
+    "catch-all": `:${name}...`,
+    "optional-catch-all": `:${name}...?`,
+    group: "",
+  }[kind];
+
+  return suffix ? `${routePath}/${suffix}` : routePath;
+}
+
+/**
+ * Lower ranks match first: static segments beat dynamic ones, which beat
+ * catch-alls
+ */
+const SEGMENT_RANKS: Record<Exclude<SegmentKind, "group">, number> = {
+  static: 0,
+  dynamic: 1,
+  "catch-all": 2,
+  "optional-catch-all": 3,
+};
+
+function getPathSegments(routePath: string) {
+  return routePath
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => {
+      const kind: Exclude<SegmentKind, "group"> = !segment.startsWith(":")
+        ? "static"
+        : segment.endsWith("...?")
+          ? "optional-catch-all"
+          : segment.endsWith("...")
+            ? "catch-all"
+            : "dynamic";
+      return { kind, segment };
+    });
+}
+
+/**
+ * Orders routes from most to least specific: segment by segment by kind,
+ * then longer before shorter, then pages before layouts. Remaining ties are
+ * broken by path so the order never depends on how files were read.
+ */
+function compareRoutes(a: Route, b: Route): number {
+  const segmentsA = getPathSegments(a.path);
+  const segmentsB = getPathSegments(b.path);
+
+  for (let index = 0; index < segmentsA.length; index++) {
+    if (index >= segmentsB.length) return -1;
+    const difference =
+      SEGMENT_RANKS[segmentsA[index].kind] -
+      SEGMENT_RANKS[segmentsB[index].kind];
+    if (difference !== 0) return difference;
+  }
+  if (segmentsB.length > segmentsA.length) return 1;
+  return (
+    Number(a.layout ?? false) - Number(b.layout ?? false) ||
+    a.path.localeCompare(b.path)
+  );
+}
+
+export interface RouteConflict {
+  /** Routes that match the same URLs, so neither can win */
+  routes: Route[];
+  message: string;
+}
+
+/**
+ * Thrown by `generateRoutes` when pages match the same URLs
+ */
+export class RouteConflictError extends Error {
+  readonly conflicts: RouteConflict[];
+
+  constructor(conflicts: RouteConflict[]) {
+    super(conflicts.map((conflict) => conflict.message).join("\n"));
+    this.name = "RouteConflictError";
+    this.conflicts = conflicts;
+  }
+}
+
+/**
+ * Finds pages that differ only in param names, such as `[id].tsx` and
+ * `[slug].tsx` in one folder, or that resolve to the same path. An optional
+ * catch-all also claims the path of its folder.
+ */
+function findRouteConflicts(routes: Route[]): RouteConflict[] {
+  const byShape = new Map<string, Route[]>();
+  const claim = (shape: string, route: Route) => {
+    const claimed = byShape.get(shape) ?? [];
+    if (!claimed.includes(route)) claimed.push(route);
+    byShape.set(shape, claimed);
+  };
+
+  const visit = (route: Route) => {
+    route.children?.forEach(visit);
+    if (route.layout) return;
+
+    const shape = getPathSegments(route.path).map(({ kind, segment }) =>
+      kind === "static" ? segment : `[${kind}]`,
+    );
+    claim(`/${shape.join("/")}`, route);
+    if (shape[shape.length - 1] === "[optional-catch-all]") {
+      claim(`/${shape.slice(0, -1).join("/")}`, route);
+    }
+  };
+  routes.forEach(visit);
+
+  return [...byShape.values()]
+    .filter((claimed) => claimed.length > 1)
+    .map((claimed) => ({
+      routes: claimed,
+      message: `Conflicting routes: ${claimed
+        .map((route) => `'${route.path}' (${route.component})`)
+        .join(", ")}`,
+    }));
+}
+
+/**
+ * Matches a route path against a pathname, segment by segment
+ */
+function matchRoutePattern(
+  pattern: string,
+  pathname: string,
+): RouteParams | null {
+  const patternSegments = pattern.split("/").filter(Boolean);
+  const pathSegments = pathname
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => {
+      try {
+        return decodeURIComponent(segment);
+      } catch {
+        return segment;
+      }
+    });
+  const params: RouteParams = {};
+
+  for (let index = 0; index < patternSegments.length; index++) {
+    const segment = patternSegments[index];
+
+    if (segment.startsWith(":") && segment.endsWith("...?")) {
+      params[segment.slice(1, -4)] = pathSegments.slice(index);
+      return params;
+    }
+    if (segment.startsWith(":") && segment.endsWith("...")) {
+      if (pathSegments.length <= index) return null;
+      params[segment.slice(1, -3)] = pathSegments.slice(index);
+      return params;
+    }
+    if (index >= pathSegments.length) return null;
+    if (segment.startsWith(":")) {
+      params[segment.slice(1)] = pathSegments[index];
+    } else if (segment !== pathSegments[index]) {
+      return null;
+    }
+  }
+
+  return patternSegments.length === pathSegments.length ? params : null;
+}
+
 /**
  * Creates a filesystem-based router with strict conventions
  * This automatically generates routes from file structure
@@ -40,8 +272,6 @@ export interface RouteConfig {
 export function createRouter(config: RouteConfig): Router {
   const {
     conventions = {
-      dynamicSegments: ["[id]", "[slug]", "[param]"],
-      catchAllSegments: ["[...slug]", "[...param]"],
       layoutFiles: ["layout.tsx", "layout.jsx", "layout.ts", "layout.js"],
       indexFiles: ["index.tsx", "index.jsx", "index.ts", "index.js"],
     },
@@ -53,7 +283,8 @@ export function createRouter(config: RouteConfig): Router {
   let currentIndex = -1;
 
   /**
-   * Generates routes from filesystem structure
+   * Generates routes from filesystem structure, most specific first. Throws
+   * a `RouteConflictError` when pages match the same URLs.
    */
   const generateRoutes = async (pagesDir: string): Promise<Route[]> => {
     if (!(await fs.pathExists(pagesDir))) {
@@ -65,18 +296,23 @@ export function createRouter(config: RouteConfig): Router {
 
     try {
       await scanDirectory(pagesDir, "", generatedRoutes, conventions);
-      console.log(
-        `Generated ${generatedRoutes.length} routes from ${pagesDir}`,
-      );
-
-      // Update the router's routes array
-      routes = generatedRoutes;
-
-      return generatedRoutes;
     } catch (error) {
       console.error("Error generating routes:", error);
       return [];
     }
+
+    const conflicts = findRouteConflicts(generatedRoutes);
+    if (conflicts.length > 0) {
+      throw new RouteConflictError(conflicts);
+    }
+
+    generatedRoutes.sort(compareRoutes);
+    console.log(`Generated ${generatedRoutes.length} routes from ${pagesDir}`);
+
+    // Update the router's routes array
+    routes = generatedRoutes;
+
+    return generatedRoutes;
   };
 
   /**
@@ -96,26 +332,7 @@ export function createRouter(config: RouteConfig): Router {
 
       if (stat.isDirectory()) {
         // Handle directory-based routing
-        const segment = file;
-        const isDynamic = conventions.dynamicSegments?.includes(segment);
-        const isCatchAll = conventions.catchAllSegments?.includes(segment);
-
-        let newRoutePath = routePath;
-        if (isDynamic) {
-          // Extract parameter name from [param] format
-          const paramName = segment.slice(1, -1);
-          newRoutePath = routePath
-            ? `${routePath}/:${paramName}`
-            : `:${paramName}`;
-        } else if (isCatchAll) {
-          // Extract parameter name from [...param] format
-          const paramName = segment.slice(4, -1);
-          newRoutePath = routePath
-            ? `${routePath}/:${paramName}...`
-            : `:${paramName}...`;
-        } else {
-          newRoutePath = routePath ? `${routePath}/${segment}` : `/${segment}`;
-        }
+        const newRoutePath = appendSegment(routePath, file);
 
         // Check for layout files in this directory
         const layoutFile = conventions.layoutFiles?.find((layout) =>
@@ -138,10 +355,6 @@ export function createRouter(config: RouteConfig): Router {
         const ext = path.extname(file);
         const name = path.basename(file, ext);
 
-        // Check if this is a dynamic or catch-all file
-        const isDynamic = conventions.dynamicSegments?.includes(name);
-        const isCatchAll = conventions.catchAllSegments?.includes(name);
-
         if (conventions.indexFiles?.includes(file)) {
           // Index route
           const route: Route = {
@@ -164,24 +377,14 @@ export function createRouter(config: RouteConfig): Router {
           }
         } else if (ext.match(/\.(tsx|jsx|ts|js)$/)) {
           // Regular page route
-          let finalRoutePath = routePath;
-          if (isDynamic) {
-            const paramName = name.slice(1, -1);
-            finalRoutePath = routePath
-              ? `${routePath}/:${paramName}`
-              : `:${paramName}`;
-          } else if (isCatchAll) {
-            const paramName = name.slice(4, -1);
-            finalRoutePath = routePath
-              ? `${routePath}/:${paramName}...`
-              : `:${paramName}...`;
-          } else {
-            finalRoutePath = routePath ? `${routePath}/${name}` : `/${name}`;
-          }
+          const finalRoutePath = appendSegment(routePath, name);
+          const { kind } = parseSegment(name);
 
           const route: Route = {
             path: finalRoutePath,
             component: fullPath,
+            dynamic: finalRoutePath.includes("/:"),
+            catchAll: kind === "catch-all" || kind === "optional-catch-all",
           };
 
           routes.push(route);
@@ -210,72 +413,24 @@ export function createRouter(config: RouteConfig): Router {
   };
 
   /**
-   * Matches a pathname to a route
+   * Matches a pathname to the most specific route, whatever order the
+   * files were read in
    */
-  const matchRoute = (pathname: string): Route | null => {
+  const matchRoute = <P extends string = string>(
+    pathname: string,
+  ): Route<P> | null => {
     const normalizedPath = pathname === "/" ? "/" : pathname.replace(/\/$/, "");
 
     for (const route of routes) {
       const match = matchRoutePattern(route.path, normalizedPath);
       if (match) {
-        return { ...route, params: match };
+        return { ...route, params: match } as Route<P>;
       }
     }
 
     return null;
   };
 
-  /**
-   * Matches route pattern with actual pathname
-   */
-  const matchRoutePattern = (
-    pattern: string,
-    pathname: string,
-  ): Record<string, string> | null => {
-    // Convert route pattern to regex
-    let regexPattern = pattern;
-
-    // First handle catch-all segments
-    regexPattern = regexPattern.replace(/:[^/]+\.\.\./g, "(.+)");
-
-    // Then handle dynamic segments (but not catch-all)
-    regexPattern = regexPattern.replace(/:[^/]+/g, "([^/]+)");
-
-    // Finally escape slashes
-    regexPattern = regexPattern.replace(/\//g, "\\/");
-
-    const regex = new RegExp(`^${regexPattern}$`);
-    const match = pathname.match(regex);
-
-    if (!match) return null;
-
-    // Extract parameters
-    const params: Record<string, string> = {};
-    const dynamicParams = pattern.match(/:[^/]+(?!\.\.\.)/g) || []; // Dynamic params that are NOT catch-all
-    const catchAllParams = pattern.match(/:[^/]+\.\.\./g) || [];
-
-    let paramIndex = 1;
-
-    // Handle dynamic parameters
-    dynamicParams.forEach((paramName) => {
-      const key = paramName.slice(1); // Remove leading colon
-      params[key] = match[paramIndex++];
-    });
-
-    // Handle catch-all parameters
-    catchAllParams.forEach((paramName) => {
-      const key = paramName.slice(1, -3); // Remove leading colon and trailing ...
-      // For catch-all, we want everything after the base path
-      const basePath = pattern.substring(0, pattern.indexOf(paramName));
-      const remainingPath = pathname.substring(basePath.length);
-      params[key] = remainingPath.startsWith("/")
-        ? remainingPath.slice(1)
-        : remainingPath;
-    });
-
-    return params;
-  };
-
   /**
    * Navigate to a new route
    */
@@ -349,8 +504,6 @@ export function createRouteConfig(
     pagesDir,
     layoutsDir: options?.layoutsDir || "layouts",
     conventions: {
-      dynamicSegments: ["[id]", "[slug]", "[param]"],
-      catchAllSegments: ["[...slug]", "[...param]"],
       layoutFiles: ["layout.tsx", "layout.jsx", "layout.ts", "layout.js"],
       indexFiles: ["index.tsx", "index.jsx", "index.ts", "index.js"],
       ...options?.conventions,
@@ -382,7 +535,9 @@ export async function generateRoutes(
  * // This will generate routes like:
  * // / -> pages/index.tsx
  * // /users -> pages/users/index.tsx
- * // /users/[id] -> pages/users/[id].tsx
+ * // /users/:id -> pages/users/[id].tsx
  * // /posts -> pages/posts/index.tsx
- * // /posts/[...slug] -> pages/posts/[...slug].tsx
+ * // /posts/:slug... -> pages/posts/[...slug].tsx
+ * // /docs/:path...? -> pages/docs/[[...path]].tsx
+ * // /pricing -> pages/(marketing)/pricing.tsx
  */
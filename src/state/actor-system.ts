@@ -0,0 +1,326 @@
+import { registerWithScope } from "./reactive-state.js";
+import { StateMachine } from "./state-machine.js";
+
+/** What happens to an actor that throws while handling a message */
+export type SupervisionStrategy = "restart" | "stop";
+
+export type ActorStatus = "running" | "stopped";
+
+export interface ActorRef {
+  /** Slash-separated path from the top-level actor, e.g. "checkout/payment" */
+  address: string;
+  /** The running machine; a restart replaces it */
+  readonly machine: StateMachine<string, string>;
+  readonly status: ActorStatus;
+  send: (_event: string, _payload?: unknown) => void;
+  /** Stops the actor and its children */
+  stop: () => void;
+}
+
+/**
+ * What an actor's behavior receives: its own ref, its parent and ways to
+ * reach other actors. Keep it in the machine's actions to send messages.
+ */
+export interface ActorScope {
+  self: ActorRef;
+  parent: ActorRef | null;
+  system: ActorSystem;
+  /** Sends a message as this actor */
+  send: (_to: string | ActorRef, _event: string, _payload?: unknown) => void;
+  /** Spawns a child, supervised by this actor, at `<address>/<name>` */
+  spawn: (
+    _name: string,
+    _behavior: ActorBehavior,
+    _options?: SpawnOptions,
+  ) => ActorRef;
+}
+
+/** Creates the machine an actor runs; called again on every restart */
+export type ActorBehavior = (
+  _scope: ActorScope,
+) => StateMachine<any, any, any, any>;
+
+export interface SpawnOptions {
+  /** Default: "restart" */
+  supervision?: SupervisionStrategy;
+  /** Restarts allowed before the actor is stopped instead (default: 3) */
+  maxRestarts?: number;
+}
+
+export interface ActorInfo {
+  address: string;
+  parent: string | null;
+  children: string[];
+  state: string;
+  context: unknown;
+  restarts: number;
+}
+
+export type ActorSystemEvent =
+  | { type: "spawned"; address: string }
+  | {
+      type: "message";
+      address: string;
+      from?: string;
+      event: string;
+      payload: unknown;
+    }
+  /** The actor doesn't exist, is stopped, or can't handle the event now */
+  | { type: "dropped"; address: string; from?: string; event: string }
+  | { type: "failed"; address: string; error: unknown }
+  | { type: "restarted"; address: string; restarts: number }
+  | { type: "stopped"; address: string };
+
+export interface ActorSystem {
+  /** Spawns a top-level actor at `name` */
+  spawn: (
+    _name: string,
+    _behavior: ActorBehavior,
+    _options?: SpawnOptions,
+  ) => ActorRef;
+  send: (_to: string | ActorRef, _event: string, _payload?: unknown) => void;
+  get: (_address: string) => ActorRef | undefined;
+  /** Every running actor, parents before their children */
+  inspect: () => ActorInfo[];
+  /** Reports spawns, messages, failures, restarts and stops as they happen */
+  subscribe: (_listener: (_event: ActorSystemEvent) => void) => () => void;
+  /** Stops every actor */
+  shutdown: () => void;
+}
+
+/** Event a parent receives when a child reaches a final state */
+export const actorDoneEvent = (address: string) => `done.actor.${address}`;
+
+/** Event a parent receives when a child is stopped after failing */
+export const actorErrorEvent = (address: string) => `error.actor.${address}`;
+
+interface Actor extends ActorRef {
+  parent: Actor | null;
+  children: Set<Actor>;
+  restarts: number;
+  /** Applies the supervision strategy */
+  fail: (_error: unknown) => void;
+  /** Stops the machine; children are stopped by `stopActor` */
+  halt: () => void;
+}
+
+interface Message {
+  to: string | ActorRef;
+  event: string;
+  payload: unknown;
+  from?: string;
+}
+
+/**
+ * Creates a system in which state machines run as actors. Each actor has
+ * an address, handles one message at a time and can spawn children it
+ * supervises: a child that throws while handling a message, or while its
+ * timers and services report back, is restarted with a fresh machine or
+ * stopped, as its spawn options say. Messages an
+ * actor can't handle in its current state are dropped.
+ */
+export function createActorSystem(): ActorSystem {
+  const actors = new Map<string, Actor>();
+  const listeners = new Set<(_event: ActorSystemEvent) => void>();
+  const mailbox: Message[] = [];
+  let delivering = false;
+
+  const emit = (event: ActorSystemEvent) => {
+    listeners.forEach((listener) => listener(event));
+  };
+
+  const resolve = (to: string | ActorRef) =>
+    actors.get(typeof to === "string" ? to : to.address);
+
+  const handle = ({ to, event, payload, from }: Message) => {
+    const address = typeof to === "string" ? to : to.address;
+    const actor = resolve(to);
+    if (!actor || actor.status === "stopped") {
+      emit({ type: "dropped", address, from, event });
+      return;
+    }
+
+    const { machine } = actor;
+    try {
+      if (!machine.can(event, payload)) {
+        emit({ type: "dropped", address, from, event });
+        return;
+      }
+      emit({ type: "message", address, from, event, payload });
+      machine.send(event, payload);
+    } catch (error) {
+      actor.fail(error);
+    }
+  };
+
+  /**
+   * Queues a message. Messages sent while another one is handled wait for
+   * it to finish, so the sender has settled into its next state by then.
+   */
+  const deliver = (
+    to: string | ActorRef,
+    event: string,
+    payload: unknown,
+    from?: string,
+  ) => {
+    mailbox.push({ to, event, payload, from });
+    if (delivering) return;
+
+    delivering = true;
+    try {
+      while (mailbox.length > 0) {
+        handle(mailbox.shift() as Message);
+      }
+    } finally {
+      delivering = false;
+    }
+  };
+
+  const spawn = (
+    name: string,
+    behavior: ActorBehavior,
+    options: SpawnOptions,
+    parent: Actor | null,
+  ): ActorRef => {
+    if (name === "" || name.includes("/")) {
+      throw new Error(`Invalid actor name '${name}'`);
+    }
+    const address = parent ? `${parent.address}/${name}` : name;
+    if (actors.has(address)) {
+      throw new Error(`An actor is already running at '${address}'`);
+    }
+
+    const { supervision = "restart", maxRestarts = 3 } = options;
+    let machine: StateMachine<string, string> | null = null;
+    let status: ActorStatus = "running";
+    let unsubscribe = () => {};
+
+    const start = () => {
+      const started = (machine = behavior(scope));
+      const unsubscribeState = started.subscribe(() => {
+        if (started.done) finish(started);
+      });
+      // Timers and services fail outside `handle`, so nothing else sees it
+      const unsubscribeErrors = started.onError(actor.fail);
+      unsubscribe = () => {
+        unsubscribeState();
+        unsubscribeErrors();
+      };
+      if (started.done) finish(started);
+    };
+
+    // A finished child is stopped and reports its context to its parent
+    const finish = (finished: StateMachine<string, string>) => {
+      stopActor(actor);
+      if (parent) {
+        deliver(parent, actorDoneEvent(address), finished.context, address);
+      }
+    };
+
+    const restart = () => {
+      [...actor.children].forEach(stopActor);
+      actor.halt();
+      status = "running";
+      actor.restarts++;
+      start();
+      emit({ type: "restarted", address, restarts: actor.restarts });
+    };
+
+    const actor: Actor = {
+      address,
+      get machine() {
+        return machine as StateMachine<string, string>;
+      },
+      get status() {
+        return status;
+      },
+      send: (_event, _payload) => deliver(actor, _event, _payload),
+      stop: () => stopActor(actor),
+      parent,
+      children: new Set(),
+      restarts: 0,
+      fail: (error) => {
+        emit({ type: "failed", address, error });
+        if (supervision === "restart" && actor.restarts < maxRestarts) {
+          try {
+            restart();
+            return;
+          } catch (restartError) {
+            error = restartError;
+          }
+        }
+        stopActor(actor);
+        if (parent) deliver(parent, actorErrorEvent(address), error, address);
+      },
+      halt: () => {
+        status = "stopped";
+        unsubscribe();
+        machine?.stop();
+      },
+    };
+
+    const scope: ActorScope = {
+      self: actor,
+      parent,
+      system,
+      send: (_to, _event, _payload) =>
+        deliver(_to, _event, _payload, actor.address),
+      spawn: (_name, _behavior, _options = {}) =>
+        spawn(_name, _behavior, _options, actor),
+    };
+
+    actors.set(address, actor);
+    parent?.children.add(actor);
+    emit({ type: "spawned", address });
+    try {
+      start();
+    } catch (error) {
+      stopActor(actor);
+      throw error;
+    }
+    return actor;
+  };
+
+  const stopActor = (actor: Actor) => {
+    // Checked by registration: a failed restart has already halted it
+    if (actors.get(actor.address) !== actor) return;
+
+    [...actor.children].forEach(stopActor);
+    actor.halt();
+    actors.delete(actor.address);
+    actor.parent?.children.delete(actor);
+    emit({ type: "stopped", address: actor.address });
+  };
+
+  const shutdown = () => {
+    unregister();
+    [...actors.values()]
+      .filter((actor) => actor.parent === null)
+      .forEach(stopActor);
+  };
+
+  const system: ActorSystem = {
+    spawn: (_name, _behavior, _options = {}) =>
+      spawn(_name, _behavior, _options, null),
+    send: (_to, _event, _payload) => deliver(_to, _event, _payload),
+    get: (_address) => actors.get(_address),
+    inspect: () =>
+      [...actors.values()].map((actor) => ({
+        address: actor.address,
+        parent: actor.parent?.address ?? null,
+        children: [...actor.children].map((child) => child.address),
+        state: actor.machine.currentState,
+        context: actor.machine.context,
+        restarts: actor.restarts,
+      })),
+    subscribe: (_listener) => {
+      listeners.add(_listener);
+      return () => listeners.delete(_listener);
+    },
+    shutdown,
+  };
+
+  const unregister = registerWithScope(shutdown);
+
+  return system;
+}
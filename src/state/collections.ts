@@ -0,0 +1,621 @@
+import { EqualityOption, resolveEquality } from "./equality.js";
+import {
+  batch,
+  createDerivedState,
+  createReactiveState,
+  createRoot,
+  ReactiveState,
+  registerWithScope,
+  StateOptions,
+  untrack,
+} from "./reactive-state.js";
+
+export type MapChange<K, V> =
+  | { type: "insert"; key: K; value: V }
+  | { type: "remove"; key: K; value: V }
+  | { type: "update"; key: K; value: V; previous: V };
+
+export type SetChange<T> =
+  | { type: "insert"; value: T }
+  | { type: "remove"; value: T };
+
+/**
+ * Changes to a reactive array. Indexes refer to the array as it was when the
+ * change was made, so replaying the records in order reproduces the update.
+ */
+export type ArrayChange<T> =
+  | { type: "insert"; index: number; value: T }
+  | { type: "remove"; index: number; value: T }
+  | { type: "update"; index: number; value: T; previous: T }
+  | { type: "move"; from: number; to: number; value: T };
+
+export interface CollectionOptions<V> {
+  /** Decides whether writing a value to an existing key is an update (default: "strict") */
+  equals?: EqualityOption<V>;
+}
+
+export interface ReactiveArrayOptions<T> extends CollectionOptions<T> {
+  /**
+   * Identifies items when a whole new array is set, so that reordering
+   * produces moves instead of removing and inserting (default: the item)
+   */
+  key?: (_item: T) => unknown;
+}
+
+interface Collection<S, C> extends ReactiveState<S> {
+  /**
+   * Change records of the most recent commit. Subscribe to receive every
+   * commit's records, e.g. to update a rendered list incrementally.
+   */
+  changes: ReactiveState<C[]>;
+  dispose: () => void;
+}
+
+/**
+ * A Map whose reads are tracked per key: `get(k)` and `has(k)` only
+ * re-run when `k` is written, `size` and `keys()` when keys are added or
+ * removed, and `value()`, `values()` and `entries()` on any change.
+ */
+export interface ReactiveMap<K, V>
+  extends Collection<ReadonlyMap<K, V>, MapChange<K, V>> {
+  get: (_key: K) => V | undefined;
+  has: (_key: K) => boolean;
+  set: (_key: K, _value: V) => void;
+  delete: (_key: K) => boolean;
+  clear: () => void;
+  readonly size: number;
+  keys: () => IterableIterator<K>;
+  values: () => IterableIterator<V>;
+  entries: () => IterableIterator<[K, V]>;
+  [Symbol.iterator]: () => IterableIterator<[K, V]>;
+}
+
+/**
+ * A Set whose `has(v)` reads are tracked per value
+ */
+export interface ReactiveSet<T>
+  extends Collection<ReadonlySet<T>, SetChange<T>> {
+  has: (_value: T) => boolean;
+  add: (_value: T) => void;
+  delete: (_value: T) => boolean;
+  clear: () => void;
+  readonly size: number;
+  values: () => IterableIterator<T>;
+  [Symbol.iterator]: () => IterableIterator<T>;
+}
+
+/**
+ * An array whose reads are tracked per index: `get(i)` only re-runs when
+ * the item at `i` changes or moves, `length` when items are added or
+ * removed, and `value()` on any change.
+ */
+export interface ReactiveArray<T>
+  extends Collection<readonly T[], ArrayChange<T>> {
+  get: (_index: number) => T | undefined;
+  set: (_index: number, _value: T) => void;
+  readonly length: number;
+  push: (..._items: T[]) => number;
+  pop: () => T | undefined;
+  shift: () => T | undefined;
+  unshift: (..._items: T[]) => number;
+  splice: (_start: number, _deleteCount?: number, ..._items: T[]) => T[];
+  move: (_from: number, _to: number) => void;
+  clear: () => void;
+  [Symbol.iterator]: () => IterableIterator<T>;
+}
+
+/**
+ * Lazily created change signals, one per key. A signal is dropped once its
+ * key is removed; readers re-running afterwards create a fresh one.
+ */
+function createKeySignals<K>() {
+  const signals = new Map<K, ReactiveState<undefined>>();
+
+  // Owned by the collection, not by the first reader: every reader of the
+  // key shares the signal, and it lives until the key is removed
+  const createSignal = () =>
+    createRoot(() =>
+      createReactiveState(undefined, { equals: false, intercept: false }),
+    );
+
+  return {
+    track: (key: K) => {
+      let signal = signals.get(key);
+      if (!signal) {
+        signal = createSignal();
+        signals.set(key, signal);
+      }
+      signal.value();
+    },
+    trigger: (key: K) => signals.get(key)?.setValue(undefined),
+    forget: (key: K) => {
+      signals.get(key)?.dispose?.();
+      signals.delete(key);
+    },
+    dispose: () => {
+      signals.forEach((signal) => signal.dispose?.());
+      signals.clear();
+    },
+  };
+}
+
+/**
+ * Shared plumbing of every collection: the "anything changed" signal, the
+ * cached snapshot returned by `value()` and the change log
+ */
+function createCollectionCore<S, C>(takeSnapshot: () => S) {
+  const signals = createKeySignals<"any" | "keys">();
+  const changes = createRoot(() =>
+    createReactiveState<C[]>([], { intercept: false }),
+  );
+  let snapshot: S | null = null;
+  // Records collected since subscribers were last notified
+  let unreported: C[] = [];
+  changes.subscribe(() => {
+    unreported = [];
+  });
+
+  const record = (change: C) => {
+    snapshot = null;
+    unreported = [...unreported, change];
+    changes.setValue(unreported);
+    signals.trigger("any");
+  };
+
+  const value = () => {
+    signals.track("any");
+    snapshot ??= takeSnapshot();
+    return snapshot;
+  };
+
+  const subscribe = (_callback: (_value: S) => void) => {
+    return changes.subscribe(() => _callback(untrack(value)));
+  };
+
+  return { signals, changes, record, value, subscribe };
+}
+
+/**
+ * Creates a Map with per-key dependency tracking and change records
+ */
+export function createReactiveMap<K, V>(
+  initialEntries: Iterable<readonly [K, V]> = [],
+  options: CollectionOptions<V> = {},
+): ReactiveMap<K, V> {
+  const equals = resolveEquality(options.equals);
+  const entries = new Map<K, V>(initialEntries);
+  const keySignals = createKeySignals<K>();
+  const core = createCollectionCore<ReadonlyMap<K, V>, MapChange<K, V>>(
+    () => new Map(entries),
+  );
+
+  const get = (_key: K) => {
+    keySignals.track(_key);
+    return entries.get(_key);
+  };
+
+  const has = (_key: K) => {
+    keySignals.track(_key);
+    return entries.has(_key);
+  };
+
+  const set = (_key: K, _value: V) => {
+    batch(() => {
+      if (!entries.has(_key)) {
+        entries.set(_key, _value);
+        core.signals.trigger("keys");
+        keySignals.trigger(_key);
+        core.record({ type: "insert", key: _key, value: _value });
+        return;
+      }
+
+      const previous = entries.get(_key) as V;
+      if (equals(previous, _value)) return;
+      entries.set(_key, _value);
+      keySignals.trigger(_key);
+      core.record({ type: "update", key: _key, value: _value, previous });
+    });
+  };
+
+  const remove = (_key: K) => {
+    if (!entries.has(_key)) return false;
+
+    batch(() => {
+      const value = entries.get(_key) as V;
+      entries.delete(_key);
+      core.signals.trigger("keys");
+      keySignals.trigger(_key);
+      keySignals.forget(_key);
+      core.record({ type: "remove", key: _key, value });
+    });
+    return true;
+  };
+
+  const clear = () => {
+    batch(() => [...entries.keys()].forEach(remove));
+  };
+
+  const setValue = (
+    _newValue:
+      | ReadonlyMap<K, V>
+      | ((_prev: ReadonlyMap<K, V>) => ReadonlyMap<K, V>),
+  ) => {
+    const next =
+      typeof _newValue === "function"
+        ? _newValue(untrack(core.value))
+        : _newValue;
+
+    batch(() => {
+      [...entries.keys()].filter((key) => !next.has(key)).forEach(remove);
+      next.forEach((value, key) => set(key, value));
+    });
+  };
+
+  const keys = () => {
+    core.signals.track("keys");
+    return entries.keys();
+  };
+
+  const dispose = () => {
+    unregister();
+    keySignals.dispose();
+    core.signals.dispose();
+    core.changes.dispose?.();
+  };
+
+  const unregister = registerWithScope(dispose);
+
+  const map: ReactiveMap<K, V> = {
+    value: core.value,
+    setValue,
+    subscribe: core.subscribe,
+    derive: <U>(
+      _fn: (_value: ReadonlyMap<K, V>) => U,
+      _options?: StateOptions<U>,
+    ) => createDerivedState(_fn, map, _options),
+    changes: core.changes,
+    get,
+    has,
+    set,
+    delete: remove,
+    clear,
+    get size() {
+      core.signals.track("keys");
+      return entries.size;
+    },
+    keys,
+    values: () => core.value().values(),
+    entries: () => core.value().entries(),
+    [Symbol.iterator]: () => core.value().entries(),
+    dispose,
+  };
+
+  return map;
+}
+
+/**
+ * Creates a Set with per-value dependency tracking and change records
+ */
+export function createReactiveSet<T>(
+  initialValues: Iterable<T> = [],
+): ReactiveSet<T> {
+  const values = new Set<T>(initialValues);
+  const valueSignals = createKeySignals<T>();
+  const core = createCollectionCore<ReadonlySet<T>, SetChange<T>>(
+    () => new Set(values),
+  );
+
+  const has = (_value: T) => {
+    valueSignals.track(_value);
+    return values.has(_value);
+  };
+
+  const add = (_value: T) => {
+    if (values.has(_value)) return;
+
+    batch(() => {
+      values.add(_value);
+      valueSignals.trigger(_value);
+      core.record({ type: "insert", value: _value });
+    });
+  };
+
+  const remove = (_value: T) => {
+    if (!values.has(_value)) return false;
+
+    batch(() => {
+      values.delete(_value);
+      valueSignals.trigger(_value);
+      valueSignals.forget(_value);
+      core.record({ type: "remove", value: _value });
+    });
+    return true;
+  };
+
+  const clear = () => {
+    batch(() => [...values].forEach(remove));
+  };
+
+  const setValue = (
+    _newValue: ReadonlySet<T> | ((_prev: ReadonlySet<T>) => ReadonlySet<T>),
+  ) => {
+    const next =
+      typeof _newValue === "function"
+        ? _newValue(untrack(core.value))
+        : _newValue;
+
+    batch(() => {
+      [...values].filter((value) => !next.has(value)).forEach(remove);
+      next.forEach(add);
+    });
+  };
+
+  const dispose = () => {
+    unregister();
+    valueSignals.dispose();
+    core.signals.dispose();
+    core.changes.dispose?.();
+  };
+
+  const unregister = registerWithScope(dispose);
+
+  const set: ReactiveSet<T> = {
+    value: core.value,
+    setValue,
+    subscribe: core.subscribe,
+    derive: <U>(
+      _fn: (_value: ReadonlySet<T>) => U,
+      _options?: StateOptions<U>,
+    ) => createDerivedState(_fn, set, _options),
+    changes: core.changes,
+    has,
+    add,
+    delete: remove,
+    clear,
+    get size() {
+      return core.value().size;
+    },
+    values: () => core.value().values(),
+    [Symbol.iterator]: () => core.value().values(),
+    dispose,
+  };
+
+  return set;
+}
+
+/**
+ * Creates an array with per-index dependency tracking and change records.
+ * Setting a whole new array diffs it against the current items by key.
+ */
+export function createReactiveArray<T>(
+  initialItems: Iterable<T> = [],
+  options: ReactiveArrayOptions<T> = {},
+): ReactiveArray<T> {
+  const equals = resolveEquality(options.equals);
+  const getKey = options.key ?? ((_item: T) => _item);
+  const items = [...initialItems];
+  const indexSignals = createKeySignals<number>();
+  const core = createCollectionCore<readonly T[], ArrayChange<T>>(() => [
+    ...items,
+  ]);
+
+  const triggerRange = (start: number, end: number) => {
+    for (let index = start; index < end; index++) {
+      indexSignals.trigger(index);
+    }
+  };
+
+  const insertAt = (index: number, value: T) => {
+    items.splice(index, 0, value);
+    triggerRange(index, items.length);
+    core.signals.trigger("keys");
+    core.record({ type: "insert", index, value });
+  };
+
+  const removeAt = (index: number) => {
+    const [value] = items.splice(index, 1);
+    triggerRange(index, items.length + 1);
+    indexSignals.forget(items.length);
+    core.signals.trigger("keys");
+    core.record({ type: "remove", index, value });
+    return value;
+  };
+
+  const updateAt = (index: number, value: T) => {
+    const previous = items[index];
+    if (equals(previous, value)) return;
+    items[index] = value;
+    indexSignals.trigger(index);
+    core.record({ type: "update", index, value, previous });
+  };
+
+  const moveItem = (from: number, to: number) => {
+    if (from === to) return;
+    const [value] = items.splice(from, 1);
+    items.splice(to, 0, value);
+    triggerRange(Math.min(from, to), Math.max(from, to) + 1);
+    core.record({ type: "move", from, to, value });
+  };
+
+  const checkIndex = (index: number, max: number) => {
+    if (!Number.isInteger(index) || index < 0 || index > max) {
+      throw new RangeError(`Index ${index} is out of bounds`);
+    }
+  };
+
+  const get = (_index: number) => {
+    indexSignals.track(_index);
+    return items[_index];
+  };
+
+  const set = (_index: number, _value: T) => {
+    checkIndex(_index, items.length);
+    batch(() =>
+      _index === items.length
+        ? insertAt(_index, _value)
+        : updateAt(_index, _value),
+    );
+  };
+
+  const splice = (_start: number, _deleteCount?: number, ..._items: T[]) => {
+    const start =
+      _start < 0
+        ? Math.max(items.length + _start, 0)
+        : Math.min(_start, items.length);
+    const deleteCount = Math.min(
+      Math.max(_deleteCount ?? items.length - start, 0),
+      items.length - start,
+    );
+
+    return batch(() => {
+      const removed = Array.from({ length: deleteCount }, () =>
+        removeAt(start),
+      );
+      _items.forEach((item, offset) => insertAt(start + offset, item));
+      return removed;
+    });
+  };
+
+  const push = (..._items: T[]) => {
+    splice(items.length, 0, ..._items);
+    return items.length;
+  };
+
+  const unshift = (..._items: T[]) => {
+    splice(0, 0, ..._items);
+    return items.length;
+  };
+
+  const move = (_from: number, _to: number) => {
+    checkIndex(_from, items.length - 1);
+    checkIndex(_to, items.length - 1);
+    batch(() => moveItem(_from, _to));
+  };
+
+  /**
+   * Turns the current items into `next` with as few changes as possible:
+   * items whose key disappeared are removed, the rest are moved into place
+   * and updated, and new keys are inserted
+   */
+  const reconcile = (next: readonly T[]) => {
+    const nextKeys = new Set(next.map(getKey));
+    for (let index = items.length - 1; index >= 0; index--) {
+      if (!nextKeys.has(getKey(items[index]))) removeAt(index);
+    }
+
+    next.forEach((item, index) => {
+      const key = getKey(item);
+      const current = items.findIndex(
+        (existing, i) => i >= index && getKey(existing) === key,
+      );
+
+      if (current === -1) {
+        insertAt(index, item);
+        return;
+      }
+      moveItem(current, index);
+      updateAt(index, item);
+    });
+
+    // Leftover items with duplicate keys
+    while (items.length > next.length) removeAt(items.length - 1);
+  };
+
+  const setValue = (
+    _newValue: readonly T[] | ((_prev: readonly T[]) => readonly T[]),
+  ) => {
+    const next =
+      typeof _newValue === "function"
+        ? (_newValue as (_prev: readonly T[]) => readonly T[])(
+            untrack(core.value),
+          )
+        : _newValue;
+    batch(() => reconcile(next));
+  };
+
+  const dispose = () => {
+    unregister();
+    indexSignals.dispose();
+    core.signals.dispose();
+    core.changes.dispose?.();
+  };
+
+  const unregister = registerWithScope(dispose);
+
+  const array: ReactiveArray<T> = {
+    value: core.value,
+    setValue,
+    subscribe: core.subscribe,
+    derive: <U>(_fn: (_value: readonly T[]) => U, _options?: StateOptions<U>) =>
+      createDerivedState(_fn, array, _options),
+    changes: core.changes,
+    get,
+    set,
+    get length() {
+      core.signals.track("keys");
+      return items.length;
+    },
+    push,
+    pop: () => (items.length > 0 ? splice(items.length - 1, 1)[0] : undefined),
+    shift: () => (items.length > 0 ? splice(0, 1)[0] : undefined),
+    unshift,
+    splice,
+    move,
+    clear: () => void splice(0),
+    [Symbol.iterator]: () => core.value().values(),
+    dispose,
+  };
+
+  return array;
+}
+
+/**
+ * Maps a reactive array to a read-only state, calling `mapFn` only for
+ * inserted and updated items. Moved and untouched items keep their mapped
+ * value, which makes this a good fit for rendering long lists.
+ */
+export function mapArray<T, U>(
+  array: ReactiveArray<T>,
+  mapFn: (_item: T) => U,
+): ReactiveState<readonly U[]> {
+  const mapped = createReactiveState<readonly U[]>(
+    untrack(() => array.value().map((item) => mapFn(item))),
+  );
+
+  const stopListening = array.changes.subscribe((changes) => {
+    const next = [...untrack(mapped.value)];
+    changes.forEach((change) => {
+      switch (change.type) {
+        case "insert":
+          next.splice(change.index, 0, mapFn(change.value));
+          break;
+        case "remove":
+          next.splice(change.index, 1);
+          break;
+        case "update":
+          next[change.index] = mapFn(change.value);
+          break;
+        case "move":
+          next.splice(change.to, 0, ...next.splice(change.from, 1));
+          break;
+      }
+    });
+    mapped.setValue(next);
+  });
+
+  const dispose = () => {
+    unregister();
+    stopListening();
+    mapped.dispose?.();
+  };
+
+  const unregister = registerWithScope(dispose);
+
+  return {
+    ...mapped,
+    setValue: () => {
+      throw new Error("Cannot set value on derived state");
+    },
+    dispose,
+  };
+}
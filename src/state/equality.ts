@@ -0,0 +1,153 @@
+export type EqualityFn<T> = (_a: T, _b: T) => boolean;
+
+/**
+ * How a state decides whether a new value is a change:
+ * - "strict": `===` (the default)
+ * - "shallow": same keys with `Object.is` values, one level deep
+ * - "deep": recursive, including Dates, RegExps, Maps and Sets, and values
+ *   must share a prototype
+ * - "structural": recursive over own enumerable data only, so a class
+ *   instance equals a plain object with the same fields
+ * - a custom comparator
+ * - `false`: every write is a change
+ */
+export type EqualityOption<T> =
+  | "strict"
+  | "shallow"
+  | "deep"
+  | "structural"
+  | EqualityFn<T>
+  | false;
+
+const isObject = (value: unknown): value is Record<PropertyKey, unknown> =>
+  value !== null && typeof value === "object";
+
+/**
+ * Compares two values one level deep
+ */
+export function shallowEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) return true;
+  if (!isObject(a) || !isObject(b)) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return (
+    keysA.length === keysB.length &&
+    keysA.every((key) => Object.hasOwn(b, key) && Object.is(a[key], b[key]))
+  );
+}
+
+/**
+ * Compares two values recursively, including Dates, RegExps, Maps and Sets
+ */
+export function deepEqual<T>(a: T, b: T): boolean {
+  return compareRecursively(a, b, true, new Map());
+}
+
+/**
+ * Compares two values recursively by their data only, ignoring prototypes
+ */
+export function structuralEqual<T>(a: T, b: T): boolean {
+  return compareRecursively(a, b, false, new Map());
+}
+
+function compareRecursively(
+  a: unknown,
+  b: unknown,
+  strictTypes: boolean,
+  visited: Map<object, object>,
+): boolean {
+  if (Object.is(a, b)) return true;
+  if (!isObject(a) || !isObject(b)) return false;
+  if (strictTypes && Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+    return false;
+  }
+
+  // Cyclic structures compare equal if the cycles line up
+  if (visited.get(a) === b) return true;
+  visited.set(a, b);
+
+  if (a instanceof Date || b instanceof Date) {
+    return (
+      a instanceof Date &&
+      b instanceof Date &&
+      Object.is(a.getTime(), b.getTime())
+    );
+  }
+
+  if (a instanceof RegExp || b instanceof RegExp) {
+    return String(a) === String(b);
+  }
+
+  if (a instanceof Map || b instanceof Map) {
+    if (!(a instanceof Map && b instanceof Map) || a.size !== b.size) {
+      return false;
+    }
+    for (const [key, value] of a) {
+      if (
+        !b.has(key) ||
+        !compareRecursively(value, b.get(key), strictTypes, visited)
+      ) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  if (a instanceof Set || b instanceof Set) {
+    if (!(a instanceof Set && b instanceof Set) || a.size !== b.size) {
+      return false;
+    }
+    // Members `a` shares with `b` match themselves; the rest are paired up
+    // with an equal member of `b` that hasn't been matched yet
+    const unmatched = [...b].filter((value) => !a.has(value));
+    for (const value of a) {
+      if (b.has(value)) continue;
+      const index = isObject(value)
+        ? unmatched.findIndex((candidate) =>
+            // A failed attempt mustn't leave its pairs behind in `visited`
+            compareRecursively(value, candidate, strictTypes, new Map(visited)),
+          )
+        : -1;
+      if (index === -1) return false;
+      unmatched.splice(index, 1);
+    }
+    return true;
+  }
+
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return (
+    keysA.length === keysB.length &&
+    keysA.every(
+      (key) =>
+        Object.hasOwn(b, key) &&
+        compareRecursively(a[key], b[key], strictTypes, visited),
+    )
+  );
+}
+
+/**
+ * Turns an equality option into a comparator
+ */
+export function resolveEquality<T>(
+  option: EqualityOption<T> = "strict",
+): EqualityFn<T> {
+  switch (option) {
+    case "strict":
+      return (_a, _b) => _a === _b;
+    case "shallow":
+      return shallowEqual;
+    case "deep":
+      return deepEqual;
+    case "structural":
+      return structuralEqual;
+    case false:
+      return () => false;
+    default:
+      return option;
+  }
+}
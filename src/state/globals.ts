@@ -0,0 +1,30 @@
+/** The parts of the Web Storage API the storage adapters rely on */
+export interface WebStorageArea {
+  getItem: (_key: string) => string | null;
+  setItem: (_key: string, _value: string) => void;
+  removeItem: (_key: string) => void;
+}
+
+/**
+ * Browser globals the state modules use when they exist. Every member is
+ * optional because they are missing on the server.
+ */
+export interface BrowserGlobals {
+  document?: {
+    getElementById: (_id: string) => { textContent: string | null } | null;
+  };
+  localStorage?: WebStorageArea;
+  sessionStorage?: WebStorageArea;
+  addEventListener?: (
+    _type: string,
+    _listener: (_event: unknown) => void,
+  ) => void;
+  removeEventListener?: (
+    _type: string,
+    _listener: (_event: unknown) => void,
+  ) => void;
+  requestAnimationFrame?: (_callback: () => void) => unknown;
+  requestIdleCallback?: (_callback: () => void) => unknown;
+}
+
+export const browserGlobals = globalThis as BrowserGlobals;
@@ -0,0 +1,126 @@
+import {
+  createReactiveState,
+  ReactiveState,
+  registerWithScope,
+} from "./reactive-state.js";
+
+export interface HistoryEntry<T> {
+  value: T;
+  timestamp: number;
+}
+
+export interface HistoryOptions {
+  /** Maximum number of entries kept, including the current one (default: 100) */
+  limit?: number;
+  /**
+   * Changes arriving within this many milliseconds of the previous change
+   * replace it instead of adding an entry, e.g. one entry per typing burst
+   */
+  coalesce?: number;
+}
+
+export interface StateHistory<T> extends ReactiveState<T> {
+  undo: () => void;
+  redo: () => void;
+  /** Moves to the entry at `index` in `entries` */
+  jumpTo: (_index: number) => void;
+  /** Forgets every entry except the current value */
+  clear: () => void;
+  canUndo: ReactiveState<boolean>;
+  canRedo: ReactiveState<boolean>;
+  entries: ReactiveState<HistoryEntry<T>[]>;
+  /** Position of the current value in `entries` */
+  index: ReactiveState<number>;
+  /** Stops recording; the wrapped state keeps working */
+  dispose: () => void;
+}
+
+interface Timeline<T> {
+  entries: HistoryEntry<T>[];
+  index: number;
+}
+
+/**
+ * Records every change of a reactive state so it can be undone and redone.
+ * Changes made inside one `batch()` reach the history as a single
+ * notification and therefore become a single entry.
+ */
+export function createHistory<T>(
+  state: ReactiveState<T>,
+  options: HistoryOptions = {},
+): StateHistory<T> {
+  const { limit = 100, coalesce = 0 } = options;
+
+  const timeline = createReactiveState<Timeline<T>>({
+    entries: [{ value: state.value(), timestamp: Date.now() }],
+    index: 0,
+  });
+  // Only entries recorded from a change may absorb the next one
+  let lastRecordedAt: number | null = null;
+
+  const record = (value: T) => {
+    const { entries, index } = timeline.value();
+    // Undo, redo and jumpTo move the index before the state notifies, which
+    // inside a batch happens only when the batch commits
+    if (Object.is(value, entries[index].value)) return;
+
+    const now = Date.now();
+    const shouldCoalesce =
+      coalesce > 0 &&
+      lastRecordedAt !== null &&
+      now - lastRecordedAt < coalesce;
+    lastRecordedAt = now;
+
+    // Recording after an undo discards the redo branch
+    const kept = entries.slice(0, shouldCoalesce ? index : index + 1);
+    const nextEntries = [...kept, { value, timestamp: now }].slice(-limit);
+
+    timeline.setValue({
+      entries: nextEntries,
+      index: nextEntries.length - 1,
+    });
+  };
+
+  const jumpTo = (_index: number) => {
+    const { entries, index } = timeline.value();
+    if (_index < 0 || _index >= entries.length || _index === index) return;
+
+    lastRecordedAt = null;
+    timeline.setValue({ entries, index: _index });
+    state.setValue(() => entries[_index].value);
+  };
+
+  const undo = () => jumpTo(timeline.value().index - 1);
+
+  const redo = () => jumpTo(timeline.value().index + 1);
+
+  const clear = () => {
+    lastRecordedAt = null;
+    timeline.setValue({
+      entries: [{ value: state.value(), timestamp: Date.now() }],
+      index: 0,
+    });
+  };
+
+  const unsubscribe = state.subscribe(record);
+
+  const dispose = () => {
+    unregister();
+    unsubscribe();
+  };
+
+  const unregister = registerWithScope(dispose);
+
+  return {
+    ...state,
+    undo,
+    redo,
+    jumpTo,
+    clear,
+    canUndo: timeline.derive((t) => t.index > 0),
+    canRedo: timeline.derive((t) => t.index < t.entries.length - 1),
+    entries: timeline.derive((t) => t.entries),
+    index: timeline.derive((t) => t.index),
+    dispose,
+  };
+}
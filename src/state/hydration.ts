@@ -0,0 +1,312 @@
+import { browserGlobals } from "./globals.js";
+import { registerWithScope } from "./reactive-state.js";
+
+/**
+ * Anything whose value can be transferred from server to client. Every
+ * `ReactiveState` qualifies; other sources such as the data-fetcher cache
+ * can be adapted with a pair of functions.
+ */
+export interface HydrationTarget<T> {
+  value: () => T;
+  setValue: (_value: T) => void;
+}
+
+export type HydrationMismatchKind =
+  /** The payload has no value for a state registered on the client */
+  | "missing"
+  /** The payload has a value no client state was registered for */
+  | "unexpected"
+  /** The state changed on the client before its payload value arrived */
+  | "modified";
+
+export interface HydrationMismatch {
+  name: string;
+  kind: HydrationMismatchKind;
+  /** The value the server sent, if any */
+  serverValue?: unknown;
+  /** The value the client kept */
+  clientValue?: unknown;
+}
+
+export interface StateRegistryOptions {
+  /** Called for every mismatch as soon as it is detected */
+  onMismatch?: (_mismatch: HydrationMismatch) => void;
+}
+
+export interface HydrationScriptOptions {
+  /** Element id the client reads the payload from (default: "__REACTIVE_STATE__") */
+  id?: string;
+  /** Content-Security-Policy nonce for the script tag */
+  nonce?: string;
+}
+
+/**
+ * A set of named states that are serialized together on the server and
+ * hydrated together on the client. Create one registry per server request.
+ */
+export interface StateRegistry {
+  /** Adds a state under a unique name; returns a function that removes it */
+  register: <T>(_name: string, _state: HydrationTarget<T>) => () => void;
+  /** Serializes every registered state into a JSON payload */
+  serialize: () => string;
+  /** Wraps the payload in a script tag that is safe to inline into HTML */
+  toScript: (_options?: HydrationScriptOptions) => string;
+  /**
+   * Applies a payload to registered states. States registered later pick up
+   * their value on registration until `endHydration()` is called. Without an
+   * argument the payload is read from the script tag written by `toScript()`.
+   */
+  hydrate: (_payload?: string, _options?: HydrationScriptOptions) => void;
+  /** Stops hydrating late registrations and reports what was left over */
+  endHydration: () => HydrationMismatch[];
+}
+
+interface RegisteredState {
+  target: HydrationTarget<any>;
+  /** Value at registration, used to detect client-side changes */
+  registeredValue: unknown;
+  hydrated: boolean;
+}
+
+const DEFAULT_SCRIPT_ID = "__REACTIVE_STATE__";
+const TYPE_KEY = "$type";
+
+/**
+ * Converts a value into JSON-compatible data, tagging the types JSON can't
+ * represent so `fromTransferable` can rebuild them
+ */
+function toTransferable(value: unknown): unknown {
+  if (value === undefined) return { [TYPE_KEY]: "undefined" };
+  if (typeof value === "bigint") {
+    return { [TYPE_KEY]: "BigInt", value: value.toString() };
+  }
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    return { [TYPE_KEY]: "Number", value: String(value) };
+  }
+  if (value === null || typeof value !== "object") return value;
+
+  if (value instanceof Date) {
+    return { [TYPE_KEY]: "Date", value: value.toISOString() };
+  }
+  if (value instanceof Map) {
+    return {
+      [TYPE_KEY]: "Map",
+      value: [...value].map(([k, v]) => [toTransferable(k), toTransferable(v)]),
+    };
+  }
+  if (value instanceof Set) {
+    return { [TYPE_KEY]: "Set", value: [...value].map(toTransferable) };
+  }
+  if (value instanceof RegExp) {
+    return {
+      [TYPE_KEY]: "RegExp",
+      value: { source: value.source, flags: value.flags },
+    };
+  }
+  if (Array.isArray(value)) return value.map(toTransferable);
+
+  const entries = Object.entries(value).map(([k, v]) => [k, toTransferable(v)]);
+  const object = Object.fromEntries(entries);
+  // Plain objects that happen to use the tag key are wrapped so they survive
+  return Object.hasOwn(object, TYPE_KEY)
+    ? { [TYPE_KEY]: "Object", value: object }
+    : object;
+}
+
+function fromTransferable(data: unknown): unknown {
+  if (data === null || typeof data !== "object") return data;
+  if (Array.isArray(data)) return data.map(fromTransferable);
+
+  const record = data as Record<string, any>;
+  if (!Object.hasOwn(record, TYPE_KEY)) {
+    return Object.fromEntries(
+      Object.entries(record).map(([k, v]) => [k, fromTransferable(v)]),
+    );
+  }
+
+  switch (record[TYPE_KEY]) {
+    case "undefined":
+      return undefined;
+    case "BigInt":
+      return BigInt(record.value);
+    case "Number":
+      return Number(record.value);
+    case "Date":
+      return new Date(record.value);
+    case "Map":
+      return new Map(
+        (record.value as [unknown, unknown][]).map(([k, v]) => [
+          fromTransferable(k),
+          fromTransferable(v),
+        ]),
+      );
+    case "Set":
+      return new Set((record.value as unknown[]).map(fromTransferable));
+    case "RegExp":
+      return new RegExp(record.value.source, record.value.flags);
+    case "Object":
+      return Object.fromEntries(
+        Object.entries(record.value).map(([k, v]) => [k, fromTransferable(v)]),
+      );
+    default:
+      throw new Error(`Unknown serialized type '${record[TYPE_KEY]}'`);
+  }
+}
+
+/**
+ * Serializes a value to JSON, preserving Dates, Maps, Sets, RegExps,
+ * BigInts, `undefined` and non-finite numbers
+ */
+export function serializeValue(value: unknown): string {
+  return JSON.stringify(toTransferable(value));
+}
+
+/**
+ * Parses a string produced by `serializeValue`
+ */
+export function deserializeValue<T = unknown>(text: string): T {
+  return fromTransferable(JSON.parse(text)) as T;
+}
+
+/**
+ * Escapes a payload so it can't close the script tag it is inlined into
+ */
+function escapeForScript(text: string): string {
+  return text
+    .replace(/</g, "\\u003c")
+    .replace(/>/g, "\\u003e")
+    .replace(/\u2028/g, "\\u2028")
+    .replace(/\u2029/g, "\\u2029");
+}
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+
+/**
+ * Reads the payload written by `toScript()` from the current document
+ */
+function readPayloadFromDocument(id: string): string | null {
+  return browserGlobals.document?.getElementById(id)?.textContent ?? null;
+}
+
+/**
+ * Creates a registry of named states for server rendering and hydration
+ */
+export function createStateRegistry(
+  options: StateRegistryOptions = {},
+): StateRegistry {
+  const { onMismatch = () => {} } = options;
+  const states = new Map<string, RegisteredState>();
+  // Payload values waiting for their state to be registered
+  let pending: Map<string, unknown> | null = null;
+  const mismatches: HydrationMismatch[] = [];
+
+  const report = (mismatch: HydrationMismatch) => {
+    mismatches.push(mismatch);
+    onMismatch(mismatch);
+  };
+
+  const applyPayloadValue = (
+    name: string,
+    entry: RegisteredState,
+    serverValue: unknown,
+  ) => {
+    entry.hydrated = true;
+    const clientValue = entry.target.value();
+
+    // A value set on the client before hydration wins over the server's
+    if (clientValue !== entry.registeredValue) {
+      report({ name, kind: "modified", serverValue, clientValue });
+      return;
+    }
+
+    entry.target.setValue(serverValue);
+  };
+
+  const register = <T>(_name: string, _state: HydrationTarget<T>) => {
+    if (states.has(_name)) {
+      throw new Error(`State '${_name}' is already registered`);
+    }
+
+    const entry: RegisteredState = {
+      target: _state,
+      registeredValue: _state.value(),
+      hydrated: false,
+    };
+    states.set(_name, entry);
+
+    if (pending?.has(_name)) {
+      const serverValue = pending.get(_name);
+      pending.delete(_name);
+      applyPayloadValue(_name, entry, serverValue);
+    }
+
+    const unregister = () => {
+      removeFromScope();
+      if (states.get(_name) === entry) {
+        states.delete(_name);
+      }
+    };
+
+    const removeFromScope = registerWithScope(unregister);
+    return unregister;
+  };
+
+  const serialize = () => {
+    const values: Record<string, unknown> = {};
+    states.forEach((entry, name) => {
+      values[name] = entry.target.value();
+    });
+    return serializeValue(values);
+  };
+
+  const toScript = (_options: HydrationScriptOptions = {}) => {
+    const { id = DEFAULT_SCRIPT_ID, nonce } = _options;
+    const nonceAttribute = nonce ? ` nonce="${escapeAttribute(nonce)}"` : "";
+    return `<script type="application/json" id="${escapeAttribute(id)}"${nonceAttribute}>${escapeForScript(serialize())}</script>`;
+  };
+
+  const hydrate = (
+    _payload?: string,
+    _options: HydrationScriptOptions = {},
+  ) => {
+    const payload =
+      _payload ?? readPayloadFromDocument(_options.id ?? DEFAULT_SCRIPT_ID);
+    if (payload === null) return;
+
+    const values = deserializeValue<Record<string, unknown>>(payload);
+    pending = new Map(Object.entries(values));
+
+    states.forEach((entry, name) => {
+      if (pending?.has(name)) {
+        const serverValue = pending.get(name);
+        pending.delete(name);
+        applyPayloadValue(name, entry, serverValue);
+      }
+    });
+  };
+
+  const endHydration = () => {
+    if (pending) {
+      pending.forEach((serverValue, name) =>
+        report({ name, kind: "unexpected", serverValue }),
+      );
+      states.forEach((entry, name) => {
+        if (!entry.hydrated) {
+          report({ name, kind: "missing", clientValue: entry.target.value() });
+        }
+      });
+      pending = null;
+    }
+
+    return [...mismatches];
+  };
+
+  return {
+    register,
+    serialize,
+    toScript,
+    hydrate,
+    endHydration,
+  };
+}
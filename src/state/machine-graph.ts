@@ -0,0 +1,867 @@
+import { StateMachine } from "./state-machine.js";
+import {
+  buildStateTree,
+  delayEvent,
+  doneEvent,
+  errorEvent,
+  InvokeSource,
+  MachineAction,
+  MachineConfig,
+  MachineGuard,
+  StateNode,
+  StateNodeConfig,
+  StateNodeType,
+  TransitionConfig,
+} from "./statechart.js";
+
+/**
+ * A machine described only by names, e.g. the output of
+ * `createStateMachineFromPrompt`. Guards and actions are expressions.
+ */
+export interface FlatMachineDefinition {
+  name?: string;
+  /** Defaults to "idle" when present, otherwise the first state */
+  initial?: string;
+  states: string[];
+  transitions: Array<{
+    from: string;
+    to: string;
+    event: string;
+    guard?: string;
+    action?: string;
+  }>;
+}
+
+export type MachineSource =
+  | StateMachine<any, any, any>
+  | MachineConfig<any>
+  | FlatMachineDefinition;
+
+export interface MachineGraphNode {
+  id: string;
+  key: string;
+  type: StateNodeType;
+  /** Id of the child entered by default */
+  initial?: string;
+  history?: "shallow" | "deep";
+  children: MachineGraphNode[];
+  entry: string[];
+  exit: string[];
+  /** Ids of invoked services */
+  invocations: string[];
+  /** Delays of `after` transitions, in ms */
+  delays: number[];
+}
+
+export interface MachineGraphTransition {
+  source: string;
+  /** Empty for targetless transitions */
+  targets: string[];
+  event: string;
+  guard?: string;
+  actions: string[];
+  internal: boolean;
+}
+
+/**
+ * The structure of a machine with guards and actions reduced to names,
+ * shared by the exporters and by analysis tools
+ */
+export interface MachineGraph {
+  name: string;
+  root: MachineGraphNode;
+  /** Every state below the root, in document order */
+  nodes: MachineGraphNode[];
+  transitions: MachineGraphTransition[];
+}
+
+const nameOf = (fn: unknown, fallback: string) =>
+  typeof fn === "function" && fn.name ? fn.name : fallback;
+
+const actionName = (action: MachineAction<any>) =>
+  typeof action === "function" ? nameOf(action, "action") : action.type;
+
+function isFlatDefinition(
+  source: MachineSource,
+): source is FlatMachineDefinition {
+  return Array.isArray((source as FlatMachineDefinition).states);
+}
+
+function isMachine(
+  source: MachineSource,
+): source is StateMachine<any, any, any> {
+  return typeof (source as StateMachine<any, any, any>).send === "function";
+}
+
+function fromFlatDefinition(definition: FlatMachineDefinition): MachineGraph {
+  // Generated definitions may mention states only in their transitions
+  const states = [
+    ...new Set([
+      ...definition.states,
+      ...definition.transitions.flatMap(({ from, to }) => [from, to]),
+    ]),
+  ];
+  const initial =
+    definition.initial ?? (states.includes("idle") ? "idle" : states[0]);
+  const children = states.map<MachineGraphNode>((state) => ({
+    id: state,
+    key: state,
+    type: "atomic",
+    children: [],
+    entry: [],
+    exit: [],
+    invocations: [],
+    delays: [],
+  }));
+  const root: MachineGraphNode = {
+    id: "(machine)",
+    key: "",
+    type: "compound",
+    initial,
+    children,
+    entry: [],
+    exit: [],
+    invocations: [],
+    delays: [],
+  };
+
+  return {
+    name: definition.name ?? "machine",
+    root,
+    nodes: children,
+    transitions: definition.transitions.map((transition) => ({
+      source: transition.from,
+      targets: [transition.to],
+      event: transition.event,
+      guard: transition.guard,
+      actions: transition.action ? [transition.action] : [],
+      internal: false,
+    })),
+  };
+}
+
+/**
+ * Describes a machine, its config or a generated definition as a graph.
+ * Transitions declared on the machine itself are drawn from every
+ * top-level state that doesn't handle the event on its own.
+ */
+export function toMachineGraph(source: MachineSource): MachineGraph {
+  if (isFlatDefinition(source)) return fromFlatDefinition(source);
+
+  const config = isMachine(source) ? source.config : source;
+  const tree = buildStateTree(config);
+
+  const toGraphNode = (node: StateNode<any>): MachineGraphNode => ({
+    id: node.id,
+    key: node.key,
+    type: node.type,
+    initial: node.initial?.id,
+    history: node.type === "history" ? node.history : undefined,
+    children: node.children.map(toGraphNode),
+    entry: node.entry.map(actionName),
+    exit: node.exit.map(actionName),
+    invocations: node.invocations.map((invocation) => invocation.id),
+    delays: node.delays,
+  });
+
+  const root = toGraphNode(tree.root);
+  const nodes = tree.nodes.slice(1).map((node) => findNode(root, node.id)!);
+
+  const transitions: MachineGraphTransition[] = [];
+  tree.nodes.forEach((node) => {
+    const sources =
+      node === tree.root
+        ? node.children.filter((child) => child.type !== "history")
+        : [node];
+
+    node.transitions.forEach((transition) => {
+      sources
+        .filter(
+          (source) =>
+            source === node ||
+            !source.transitions.some((t) => t.event === transition.event),
+        )
+        .forEach((source) => {
+          transitions.push({
+            source: source.id,
+            targets: transition.targets.map((target) => target.id),
+            event: transition.event,
+            guard: transition.guard
+              ? nameOf(transition.guard, "guard")
+              : undefined,
+            actions: transition.actions.map(actionName),
+            internal: transition.internal,
+          });
+        });
+    });
+  });
+
+  return { name: config.id ?? "machine", root, nodes, transitions };
+}
+
+function findNode(
+  node: MachineGraphNode,
+  id: string,
+): MachineGraphNode | undefined {
+  if (node.id === id) return node;
+  for (const child of node.children) {
+    const found = findNode(child, id);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * A readable transition label: "EVENT [guard] / action"
+ */
+function transitionLabel(transition: MachineGraphTransition) {
+  const delay = /^after\.(\d+)\./.exec(transition.event);
+  let label = delay ? `after ${delay[1]}ms` : transition.event;
+  if (transition.guard) label += ` [${transition.guard}]`;
+  if (transition.actions.length > 0) {
+    label += ` / ${transition.actions.join(", ")}`;
+  }
+  return label;
+}
+
+const toIdentifier = (id: string) => id.replace(/[^A-Za-z0-9_]/g, "_");
+
+/**
+ * Renders a machine as a Mermaid `stateDiagram-v2`
+ */
+export function toMermaid(source: MachineSource): string {
+  const graph = toMachineGraph(source);
+  const lines = ["stateDiagram-v2"];
+  const bySource = groupBySource(graph.transitions);
+
+  const renderNode = (node: MachineGraphNode, indent: string) => {
+    const id = toIdentifier(node.id);
+    if (node.type === "history") {
+      lines.push(
+        `${indent}state "${node.history === "deep" ? "H*" : "H"}" as ${id}`,
+      );
+      return;
+    }
+    if (node.children.length === 0) {
+      lines.push(`${indent}state "${node.key}" as ${id}`);
+      return;
+    }
+
+    lines.push(`${indent}state "${node.key}" as ${id} {`);
+    renderChildren(node, `${indent}  `);
+    lines.push(`${indent}}`);
+  };
+
+  const renderChildren = (parent: MachineGraphNode, indent: string) => {
+    if (parent.type === "parallel") {
+      parent.children.forEach((child, index) => {
+        if (index > 0) lines.push(`${indent}--`);
+        renderNode(child, indent);
+      });
+    } else {
+      parent.children.forEach((child) => renderNode(child, indent));
+      if (parent.initial) {
+        lines.push(`${indent}[*] --> ${toIdentifier(parent.initial)}`);
+      }
+    }
+
+    parent.children.forEach((child) => {
+      if (child.type === "final") {
+        lines.push(`${indent}${toIdentifier(child.id)} --> [*]`);
+      }
+      (bySource.get(child.id) ?? []).forEach((transition) => {
+        transition.targets.forEach((target) => {
+          lines.push(
+            `${indent}${toIdentifier(child.id)} --> ${toIdentifier(target)} : ${transitionLabel(transition)}`,
+          );
+        });
+      });
+    });
+  };
+
+  renderChildren(graph.root, "  ");
+  return lines.join("\n");
+}
+
+function groupBySource(transitions: MachineGraphTransition[]) {
+  const groups = new Map<string, MachineGraphTransition[]>();
+  transitions.forEach((transition) => {
+    const group = groups.get(transition.source) ?? [];
+    group.push(transition);
+    groups.set(transition.source, group);
+  });
+  return groups;
+}
+
+const quote = (value: string) => `"${value.replace(/(["\\])/g, "\\$1")}"`;
+
+/**
+ * Renders a machine as a Graphviz DOT digraph. Compound and parallel
+ * states become clusters; edges to them point at their initial state.
+ */
+export function toDot(source: MachineSource): string {
+  const graph = toMachineGraph(source);
+  const byId = new Map(graph.nodes.map((node) => [node.id, node]));
+  const lines = [
+    `digraph ${quote(graph.name)} {`,
+    "  rankdir=LR;",
+    "  compound=true;",
+    '  node [shape=box, style=rounded, fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+  ];
+
+  // Edges can't end at clusters, so they end at a state inside one
+  const anchorOf = (node: MachineGraphNode): MachineGraphNode =>
+    node.children.length === 0
+      ? node
+      : anchorOf(
+          node.children.find((child) => child.id === node.initial) ??
+            node.children[0],
+        );
+
+  const renderInitial = (parent: MachineGraphNode, indent: string) => {
+    if (!parent.initial) return;
+    const start = quote(`${parent.id}.__initial`);
+    const initial = byId.get(parent.initial)!;
+    const cluster =
+      initial.children.length > 0
+        ? ` [lhead=${quote(`cluster_${initial.id}`)}]`
+        : "";
+    lines.push(`${indent}${start} [shape=point, width=0.15];`);
+    lines.push(
+      `${indent}${start} -> ${quote(anchorOf(initial).id)}${cluster};`,
+    );
+  };
+
+  const renderNode = (node: MachineGraphNode, indent: string) => {
+    if (node.children.length > 0) {
+      lines.push(`${indent}subgraph ${quote(`cluster_${node.id}`)} {`);
+      lines.push(`${indent}  label=${quote(node.key)};`);
+      lines.push(
+        `${indent}  style=${node.type === "parallel" ? '"rounded,dashed"' : "rounded"};`,
+      );
+      node.children.forEach((child) => renderNode(child, `${indent}  `));
+      renderInitial(node, `${indent}  `);
+      lines.push(`${indent}}`);
+      return;
+    }
+
+    const attributes =
+      node.type === "history"
+        ? `shape=circle, label=${quote(node.history === "deep" ? "H*" : "H")}`
+        : node.type === "final"
+          ? `label=${quote(node.key)}, peripheries=2`
+          : `label=${quote(node.key)}`;
+    lines.push(`${indent}${quote(node.id)} [${attributes}];`);
+  };
+
+  graph.root.children.forEach((child) => renderNode(child, "  "));
+  renderInitial(graph.root, "  ");
+
+  graph.transitions.forEach((transition) => {
+    const from = byId.get(transition.source)!;
+    transition.targets.forEach((targetId) => {
+      const to = byId.get(targetId)!;
+      const attributes = [`label=${quote(transitionLabel(transition))}`];
+      if (from.children.length > 0) {
+        attributes.push(`ltail=${quote(`cluster_${from.id}`)}`);
+      }
+      if (to.children.length > 0) {
+        attributes.push(`lhead=${quote(`cluster_${to.id}`)}`);
+      }
+      lines.push(
+        `  ${quote(anchorOf(from).id)} -> ${quote(anchorOf(to).id)} [${attributes.join(", ")}];`,
+      );
+    });
+  });
+
+  lines.push("}");
+  return lines.join("\n");
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Renders a machine as SCXML. Guards become `cond` attributes and `after`
+ * transitions become delayed `<send>`s; action code can't be expressed, so
+ * actions only appear as `<log>` labels.
+ */
+export function toSCXML(source: MachineSource): string {
+  const graph = toMachineGraph(source);
+  const bySource = groupBySource(graph.transitions);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<scxml xmlns="http://www.w3.org/2005/07/scxml" version="1.0" name="${escapeXml(graph.name)}"${
+      graph.root.initial ? ` initial="${escapeXml(graph.root.initial)}"` : ""
+    }>`,
+  ];
+
+  const renderActions = (
+    tag: "onentry" | "onexit",
+    actions: string[],
+    extra: string[],
+    indent: string,
+  ) => {
+    if (actions.length === 0 && extra.length === 0) return;
+    lines.push(`${indent}<${tag}>`);
+    actions.forEach((action) => {
+      lines.push(`${indent}  <log label="${escapeXml(action)}"/>`);
+    });
+    extra.forEach((line) => lines.push(`${indent}  ${line}`));
+    lines.push(`${indent}</${tag}>`);
+  };
+
+  const renderNode = (node: MachineGraphNode, indent: string) => {
+    const id = escapeXml(node.id);
+
+    if (node.type === "history") {
+      lines.push(`${indent}<history id="${id}" type="${node.history}"/>`);
+      return;
+    }
+
+    const tag =
+      node.type === "parallel"
+        ? "parallel"
+        : node.type === "final"
+          ? "final"
+          : "state";
+    const initial =
+      node.type === "compound" && node.initial
+        ? ` initial="${escapeXml(node.initial)}"`
+        : "";
+    const transitions = bySource.get(node.id) ?? [];
+    const isEmpty =
+      node.children.length === 0 &&
+      transitions.length === 0 &&
+      node.entry.length === 0 &&
+      node.exit.length === 0 &&
+      node.delays.length === 0 &&
+      node.invocations.length === 0;
+
+    if (isEmpty) {
+      lines.push(`${indent}<${tag} id="${id}"/>`);
+      return;
+    }
+
+    lines.push(`${indent}<${tag} id="${id}"${initial}>`);
+    const inner = `${indent}  `;
+    renderActions(
+      "onentry",
+      node.entry,
+      node.delays.map(
+        (delay) =>
+          `<send event="${escapeXml(delayEvent(node.id, delay))}" id="${escapeXml(delayEvent(node.id, delay))}" delay="${delay}ms"/>`,
+      ),
+      inner,
+    );
+    renderActions(
+      "onexit",
+      node.exit,
+      node.delays.map(
+        (delay) =>
+          `<cancel sendid="${escapeXml(delayEvent(node.id, delay))}"/>`,
+      ),
+      inner,
+    );
+    node.invocations.forEach((invocation) => {
+      lines.push(`${inner}<invoke id="${escapeXml(invocation)}"/>`);
+    });
+    transitions.forEach((transition) => {
+      const attributes = [`event="${escapeXml(transition.event)}"`];
+      if (transition.guard) {
+        attributes.push(`cond="${escapeXml(transition.guard)}"`);
+      }
+      if (transition.targets.length > 0) {
+        attributes.push(`target="${escapeXml(transition.targets.join(" "))}"`);
+      }
+      if (transition.internal) attributes.push('type="internal"');
+
+      if (transition.actions.length === 0) {
+        lines.push(`${inner}<transition ${attributes.join(" ")}/>`);
+      } else {
+        lines.push(`${inner}<transition ${attributes.join(" ")}>`);
+        transition.actions.forEach((action) => {
+          lines.push(`${inner}  <log label="${escapeXml(action)}"/>`);
+        });
+        lines.push(`${inner}</transition>`);
+      }
+    });
+    node.children.forEach((child) => renderNode(child, inner));
+    lines.push(`${indent}</${tag}>`);
+  };
+
+  graph.root.children.forEach((child) => renderNode(child, "  "));
+  lines.push("</scxml>");
+  return lines.join("\n");
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+}
+
+const unescapeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+/**
+ * A small XML reader for SCXML documents: elements and attributes only,
+ * text content is skipped
+ */
+function parseXml(xml: string): XmlElement {
+  const source = xml
+    .replace(/<\?[\s\S]*?\?>/g, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, "")
+    .replace(/<!DOCTYPE[^>]*>/gi, "");
+  const tagPattern =
+    /<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  const attributePattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  const stack: XmlElement[] = [];
+  let root: XmlElement | undefined;
+
+  for (const [, closing, name, attributeText, selfClosing] of source.matchAll(
+    tagPattern,
+  )) {
+    if (closing) {
+      const element = stack.pop();
+      if (element?.name !== name) {
+        throw new Error(`Invalid SCXML: unexpected </${name}>`);
+      }
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const [, key, doubleQuoted, singleQuoted] of attributeText.matchAll(
+      attributePattern,
+    )) {
+      attributes[key] = unescapeXml(doubleQuoted ?? singleQuoted);
+    }
+    const element: XmlElement = { name, attributes, children: [] };
+
+    const parent = stack[stack.length - 1];
+    if (parent) parent.children.push(element);
+    else if (!root) root = element;
+    if (!selfClosing) stack.push(element);
+  }
+
+  if (!root || stack.length > 0) {
+    throw new Error("Invalid SCXML: unbalanced or missing elements");
+  }
+  return root;
+}
+
+export interface SCXMLImportOptions<C> {
+  /** Guards for `cond` expressions, by expression text */
+  guards?: Record<string, MachineGuard<C>>;
+  /** Services for `<invoke>` elements, by invoke id */
+  services?: Record<string, InvokeSource<C>>;
+  context?: C;
+}
+
+/**
+ * Builds a machine config from an SCXML document, e.g. one written by
+ * `toSCXML` or a modelling tool. Conditions are looked up in `guards` and
+ * invocations in `services`; executable content is not imported.
+ */
+export function fromSCXML<C = any>(
+  xml: string,
+  options: SCXMLImportOptions<C> = {},
+): MachineConfig<C> {
+  const document = parseXml(xml);
+  if (document.name !== "scxml") {
+    throw new Error(`Invalid SCXML: expected <scxml>, got <${document.name}>`);
+  }
+
+  const stateTags = new Set(["state", "parallel", "final", "history"]);
+  let generatedIds = 0;
+
+  const getGuard = (cond: string) => {
+    const guard = options.guards?.[cond];
+    if (!guard) {
+      throw new Error(`No guard provided for SCXML condition '${cond}'`);
+    }
+    return guard;
+  };
+
+  const toTransition = (element: XmlElement): TransitionConfig<C> => {
+    const { target, cond, type } = element.attributes;
+    return {
+      target: target
+        ?.split(/\s+/)
+        .filter(Boolean)
+        .map((id) => `#${id}`),
+      guard: cond ? getGuard(cond) : undefined,
+      internal: type === "internal" || undefined,
+    };
+  };
+
+  const initialOf = (element: XmlElement, keys: Map<string, string>) => {
+    const initialId =
+      element.attributes.initial?.split(/\s+/)[0] ??
+      element.children
+        .find((child) => child.name === "initial")
+        ?.children.find((child) => child.name === "transition")?.attributes
+        .target;
+    return initialId ? keys.get(initialId) : undefined;
+  };
+
+  const toStateConfig = (
+    element: XmlElement,
+    id: string,
+    path: string,
+  ): StateNodeConfig<C> => {
+    const { keys, states } = toChildren(element, path);
+    const config: StateNodeConfig<C> = {};
+    if (id !== path) config.id = id;
+
+    if (element.name === "parallel") config.type = "parallel";
+    if (element.name === "final") config.type = "final";
+    if (element.name === "history") {
+      config.type = "history";
+      config.history = element.attributes.type === "deep" ? "deep" : "shallow";
+      const target = element.children.find(
+        (child) => child.name === "transition",
+      )?.attributes.target;
+      if (target) config.target = `#${target}`;
+      return config;
+    }
+    if (Object.keys(states).length > 0) {
+      config.states = states;
+      const initial = initialOf(element, keys);
+      if (initial && element.name === "state") config.initial = initial;
+    }
+
+    const invokeIds = element.children
+      .filter((child) => child.name === "invoke")
+      .map((child) => child.attributes.id);
+
+    element.children
+      .filter((child) => child.name === "transition")
+      .forEach((child) => {
+        const event = child.attributes.event;
+        // Eventless transitions have no counterpart here
+        if (!event) return;
+
+        const transition = toTransition(child);
+        const delay = /^after\.(\d+)\.(.+)$/.exec(event);
+        const invocation = invokeIds.find(
+          (invokeId) =>
+            invokeId &&
+            options.services?.[invokeId] &&
+            (event === doneEvent(invokeId) || event === errorEvent(invokeId)),
+        );
+
+        if (delay && delay[2] === id) {
+          const after = (config.after ??= {});
+          after[Number(delay[1])] = [
+            ...toTransitionList(after[Number(delay[1])]),
+            transition,
+          ];
+        } else if (invocation) {
+          const invoke = ensureInvoke(config, invocation);
+          const key = event === doneEvent(invocation) ? "onDone" : "onError";
+          invoke[key] = [...toTransitionList(invoke[key]), transition];
+        } else {
+          const on = (config.on ??= {}) as Record<
+            string,
+            TransitionConfig<C>[]
+          >;
+          (on[event] ??= []).push(transition);
+        }
+      });
+
+    invokeIds.forEach((invokeId) => {
+      if (invokeId && options.services?.[invokeId]) {
+        ensureInvoke(config, invokeId);
+      }
+    });
+
+    return config;
+  };
+
+  const ensureInvoke = (config: StateNodeConfig<C>, invokeId: string) => {
+    const invocations = Array.isArray(config.invoke)
+      ? config.invoke
+      : (config.invoke = config.invoke ? [config.invoke] : []);
+    let invoke = invocations.find((candidate) => candidate.id === invokeId);
+    if (!invoke) {
+      invoke = { id: invokeId, src: options.services![invokeId] };
+      invocations.push(invoke);
+    }
+    return invoke;
+  };
+
+  const toChildren = (element: XmlElement, parentPath: string) => {
+    const keys = new Map<string, string>();
+    const states: Record<string, StateNodeConfig<C>> = {};
+
+    element.children
+      .filter((child) => stateTags.has(child.name))
+      .forEach((child) => {
+        const id = child.attributes.id ?? `state${++generatedIds}`;
+        // Ids written by toSCXML are dot paths; keep only the last segment
+        const key =
+          parentPath && id.startsWith(`${parentPath}.`)
+            ? id.slice(parentPath.length + 1)
+            : id;
+        const path = parentPath ? `${parentPath}.${key}` : key;
+        keys.set(id, key);
+        states[key] = toStateConfig(child, id, path);
+      });
+
+    return { keys, states };
+  };
+
+  const { keys, states } = toChildren(document, "");
+  const machine: MachineConfig<C> = { states };
+  const initial = initialOf(document, keys);
+  if (initial) machine.initial = initial;
+  if (document.attributes.name) machine.id = document.attributes.name;
+  if (options.context !== undefined) machine.context = options.context;
+  return machine;
+}
+
+function toTransitionList<C>(
+  definition:
+    | TransitionConfig<C>
+    | string
+    | (string | TransitionConfig<C>)[]
+    | undefined,
+): (string | TransitionConfig<C>)[] {
+  return definition === undefined
+    ? []
+    : Array.isArray(definition)
+      ? definition
+      : [definition];
+}
+
+export interface NondeterministicTransition {
+  state: string;
+  event: string;
+  /** Number of transitions for the event on the state */
+  count: number;
+  /** Whether every transition but the last has a guard to choose between them */
+  guarded: boolean;
+}
+
+export interface MachineAnalysis {
+  /** States no sequence of transitions can enter */
+  unreachableStates: string[];
+  /** Reachable non-final states that nothing leads out of */
+  deadStates: string[];
+  /** States with several transitions for the same event */
+  nondeterministic: NondeterministicTransition[];
+}
+
+/**
+ * Checks a machine's structure without running it. Guards are assumed to
+ * pass sometimes, so reachability is an upper bound.
+ */
+export function analyzeMachine(source: MachineSource): MachineAnalysis {
+  const graph = toMachineGraph(source);
+  const byId = new Map(
+    [graph.root, ...graph.nodes].map((node) => [node.id, node]),
+  );
+  const parents = new Map<string, MachineGraphNode>();
+  [graph.root, ...graph.nodes].forEach((node) => {
+    node.children.forEach((child) => parents.set(child.id, node));
+  });
+  const ancestorsOf = (id: string) => {
+    const ancestors: MachineGraphNode[] = [];
+    for (
+      let parent = parents.get(id);
+      parent;
+      parent = parents.get(parent.id)
+    ) {
+      ancestors.push(parent);
+    }
+    return ancestors;
+  };
+
+  const reachable = new Set<string>();
+  const enter = (node: MachineGraphNode) => {
+    if (reachable.has(node.id)) return;
+    reachable.add(node.id);
+
+    if (node.type === "history") {
+      const parent = parents.get(node.id);
+      if (parent?.initial) enter(byId.get(parent.initial)!);
+    } else if (node.type === "parallel") {
+      node.children.forEach((child) => {
+        if (child.type !== "history") enter(child);
+      });
+    } else if (node.initial) {
+      enter(byId.get(node.initial)!);
+    }
+
+    ancestorsOf(node.id).forEach((ancestor) => {
+      if (!reachable.has(ancestor.id)) enter(ancestor);
+    });
+  };
+
+  enter(graph.root);
+  let size = 0;
+  while (size !== reachable.size) {
+    size = reachable.size;
+    graph.transitions.forEach((transition) => {
+      if (!reachable.has(transition.source)) return;
+      transition.targets.forEach((target) => enter(byId.get(target)!));
+    });
+  }
+
+  const exits = new Set(
+    graph.transitions
+      .filter((transition) => transition.targets.length > 0)
+      .map((transition) => transition.source),
+  );
+  const canLeave = (node: MachineGraphNode) =>
+    [node, ...ancestorsOf(node.id)].some(
+      (state) =>
+        exits.has(state.id) ||
+        state.delays.length > 0 ||
+        state.invocations.length > 0,
+    );
+
+  const groups = new Map<string, MachineGraphTransition[]>();
+  graph.transitions.forEach((transition) => {
+    const key = JSON.stringify([transition.source, transition.event]);
+    groups.set(key, [...(groups.get(key) ?? []), transition]);
+  });
+
+  return {
+    unreachableStates: graph.nodes
+      .filter((node) => node.type !== "history" && !reachable.has(node.id))
+      .map((node) => node.id),
+    deadStates: graph.nodes
+      .filter(
+        (node) =>
+          node.children.length === 0 &&
+          node.type !== "final" &&
+          node.type !== "history" &&
+          reachable.has(node.id) &&
+          !canLeave(node),
+      )
+      .map((node) => node.id),
+    nondeterministic: [...groups.values()]
+      .filter((transitions) => transitions.length > 1)
+      .map((transitions) => ({
+        state: transitions[0].source,
+        event: transitions[0].event,
+        count: transitions.length,
+        guarded: transitions
+          .slice(0, -1)
+          .every((transition) => transition.guard !== undefined),
+      })),
+  };
+}
@@ -0,0 +1,465 @@
+import { deepEqual } from "./equality.js";
+import { FlatMachineDefinition, MachineSource } from "./machine-graph.js";
+import { createStateMachine, StateMachine } from "./state-machine.js";
+import {
+  delayEvent,
+  doneEvent,
+  errorEvent,
+  MachineConfig,
+  MachineGuard,
+  StateNodeConfig,
+  StateValue,
+  TransitionConfig,
+  TransitionDefinition,
+} from "./statechart.js";
+
+export interface TestStep {
+  event: string;
+  payload?: unknown;
+  /** The event is expected to be refused, e.g. by a failing guard */
+  blocked?: boolean;
+  /** Expected value after the step */
+  state: StateValue;
+}
+
+export interface TestPath {
+  description: string;
+  steps: TestStep[];
+}
+
+export interface CoverageItem {
+  covered: string[];
+  uncovered: string[];
+  /** Share of covered items, 1 when there is nothing to cover */
+  ratio: number;
+}
+
+export interface CoverageReport {
+  /** State ids that were active at some point */
+  states: CoverageItem;
+  /** Transitions, named "state on EVENT" or "state after 3000ms" */
+  transitions: CoverageItem;
+  /** Guard outcomes, named "state on EVENT [true]" and "... [false]" */
+  guards: CoverageItem;
+}
+
+export interface TestPlan {
+  name: string;
+  /** The shortest path to every reachable state */
+  states: TestPath[];
+  /** Paths that together take every reachable transition */
+  transitions: TestPath[];
+  /** A path to each guard outcome, passing and failing */
+  guards: TestPath[];
+  coverage: CoverageReport;
+}
+
+export interface TestPlanOptions {
+  /** Payloads to try per event (default: `[undefined]`) */
+  events?: Record<string, unknown[]>;
+  /**
+   * Identifies distinct states while exploring (default: the state value and
+   * context as JSON). Leave out context fields that grow without bound, such
+   * as counters or timestamps, to keep the exploration small.
+   */
+  serialize?: (_value: StateValue, _context: unknown) => string;
+  /** Stops exploring after this many distinct states (default: 500) */
+  maxStates?: number;
+}
+
+interface Recorder {
+  taken: Set<string>;
+  guards: Map<string, Set<boolean>>;
+}
+
+interface Instrumented {
+  config: MachineConfig<any>;
+  events: string[];
+  /** State ids with the dot paths `matches` understands */
+  states: Array<{ id: string; path: string }>;
+  transitions: string[];
+  guards: string[];
+}
+
+const toArray = <V>(value: V | V[] | undefined): V[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+/**
+ * Turns any machine source into a config that can run. Guards of flat
+ * definitions are expressions, so they are assumed to pass.
+ */
+export function toExecutableConfig(source: MachineSource): MachineConfig<any> {
+  if (!Array.isArray((source as FlatMachineDefinition).states)) {
+    return typeof (source as StateMachine<any, any>).send === "function"
+      ? (source as StateMachine<any, any>).config
+      : (source as MachineConfig<any>);
+  }
+
+  const definition = source as FlatMachineDefinition;
+  const names = [
+    ...new Set([
+      ...definition.states,
+      ...definition.transitions.flatMap(({ from, to }) => [from, to]),
+    ]),
+  ];
+  const states: Record<string, StateNodeConfig<any>> = {};
+  names.forEach((name) => (states[name] = { on: {} }));
+  definition.transitions.forEach((transition) => {
+    const on = states[transition.from].on as Record<
+      string,
+      TransitionConfig<any>[]
+    >;
+    const guard = transition.guard
+      ? Object.defineProperty(() => true, "name", { value: transition.guard })
+      : undefined;
+    (on[transition.event] ??= []).push({ target: `#${transition.to}`, guard });
+  });
+
+  return {
+    id: definition.name,
+    initial: definition.initial ?? (names.includes("idle") ? "idle" : names[0]),
+    states,
+  };
+}
+
+/**
+ * Copies a config with guards and transitions reporting to `recorder` and
+ * invoked services replaced by no-ops; their results are sent as events
+ */
+function instrument(
+  config: MachineConfig<any>,
+  recorder: Recorder,
+): Instrumented {
+  const result: Instrumented = {
+    config,
+    events: [],
+    states: [],
+    transitions: [],
+    guards: [],
+  };
+  const events = new Set<string>();
+
+  const wrap = (
+    name: string,
+    definition: TransitionDefinition<any> | undefined,
+  ): TransitionConfig<any>[] => {
+    const transitions = toArray(definition).map((transition) =>
+      typeof transition === "string" ? { target: transition } : transition,
+    );
+
+    return transitions.map((transition, index) => {
+      const id = transitions.length > 1 ? `${name} #${index + 1}` : name;
+      const guard = transition.guard;
+      result.transitions.push(id);
+
+      let wrappedGuard: MachineGuard<any> | undefined;
+      if (guard) {
+        result.guards.push(`${id} [true]`, `${id} [false]`);
+        wrappedGuard = (context, event) => {
+          const passed = guard(context, event);
+          const outcomes = recorder.guards.get(id) ?? new Set<boolean>();
+          recorder.guards.set(id, outcomes.add(passed));
+          return passed;
+        };
+      }
+
+      return {
+        ...transition,
+        guard: wrappedGuard,
+        actions: [() => recorder.taken.add(id), ...toArray(transition.actions)],
+      };
+    });
+  };
+
+  const walk = (
+    node: StateNodeConfig<any>,
+    path: string,
+  ): StateNodeConfig<any> => {
+    const id = node.id ?? (path || "(machine)");
+    if (path) result.states.push({ id, path });
+    if (node.type === "history") return node;
+
+    const copy: StateNodeConfig<any> = { ...node };
+
+    if (node.on) {
+      copy.on = Object.fromEntries(
+        Object.entries(node.on).map(([event, definition]) => {
+          events.add(event);
+          return [event, wrap(`${id} on ${event}`, definition)];
+        }),
+      );
+    }
+
+    if (node.after) {
+      copy.after = Object.fromEntries(
+        Object.entries(node.after).map(([delay, definition]) => {
+          events.add(delayEvent(id, Number(delay)));
+          return [delay, wrap(`${id} after ${delay}ms`, definition)];
+        }),
+      );
+    }
+
+    if (node.invoke) {
+      copy.invoke = toArray(node.invoke).map((invocation, index) => {
+        const invocationId = invocation.id ?? `${id}:invocation[${index}]`;
+        events.add(doneEvent(invocationId));
+        events.add(errorEvent(invocationId));
+        return {
+          id: invocationId,
+          src: () => undefined,
+          onDone: wrap(`${id} done ${invocationId}`, invocation.onDone),
+          onError: wrap(`${id} error ${invocationId}`, invocation.onError),
+        };
+      });
+    }
+
+    if (node.states) {
+      copy.states = Object.fromEntries(
+        Object.entries(node.states).map(([key, child]) => [
+          key,
+          walk(child, path ? `${path}.${key}` : key),
+        ]),
+      );
+    }
+
+    return copy;
+  };
+
+  result.config = walk(config, "") as MachineConfig<any>;
+  result.events = [...events];
+  return result;
+}
+
+const describeSteps = (steps: TestStep[]) =>
+  steps.length === 0
+    ? "initially"
+    : `via ${steps.map((step) => step.event).join(" → ")}`;
+
+const toCoverage = (all: string[], covered: Set<string>): CoverageItem => {
+  const uncovered = all.filter((item) => !covered.has(item));
+  return {
+    covered: all.filter((item) => covered.has(item)),
+    uncovered,
+    ratio: all.length === 0 ? 1 : (all.length - uncovered.length) / all.length,
+  };
+};
+
+/**
+ * Explores a machine breadth-first by sending every known event from every
+ * state it reaches, and derives test paths from what it saw: the shortest
+ * path to each state, paths through each transition and paths to each
+ * guard outcome. Actions run as usual; invoked services don't, their
+ * done/error events are sent like any other event instead.
+ */
+export function createTestPlan(
+  source: MachineSource,
+  options: TestPlanOptions = {},
+): TestPlan {
+  const {
+    events: payloads = {},
+    serialize = (value, context) => JSON.stringify([value, context]),
+    maxStates = 500,
+  } = options;
+  const recorder: Recorder = { taken: new Set(), guards: new Map() };
+  const config = toExecutableConfig(source);
+  const model = instrument(config, recorder);
+
+  const replay = (steps: TestStep[]) => {
+    const machine = createStateMachine(model.config);
+    steps.forEach((step) => {
+      if (!step.blocked) machine.send(step.event, step.payload);
+    });
+    recorder.taken.clear();
+    recorder.guards.clear();
+    return machine;
+  };
+
+  const statePaths = new Map<string, TestStep[]>();
+  const transitionPaths = new Map<string, TestStep[]>();
+  const guardPaths = new Map<string, TestStep[]>();
+  const visited = new Set<string>();
+  const queue: TestStep[][] = [];
+
+  const visit = (machine: StateMachine<any, any>, steps: TestStep[]) => {
+    model.states.forEach(({ id, path }) => {
+      if (!statePaths.has(id) && machine.matches(path)) {
+        statePaths.set(id, steps);
+      }
+    });
+
+    const key = serialize(machine.value, machine.context);
+    if (!visited.has(key) && visited.size < maxStates) {
+      visited.add(key);
+      queue.push(steps);
+    }
+  };
+
+  const recordGuards = (steps: TestStep[]) => {
+    recorder.guards.forEach((outcomes, id) => {
+      outcomes.forEach((outcome) => {
+        const name = `${id} [${outcome}]`;
+        if (!guardPaths.has(name)) guardPaths.set(name, steps);
+      });
+    });
+  };
+
+  // Delayed transitions are explored as events, so every replayed machine
+  // is stopped before its `after` timers can fire
+  const initial = replay([]);
+  visit(initial, []);
+  initial.stop();
+
+  while (queue.length > 0) {
+    const steps = queue.shift() as TestStep[];
+
+    model.events.forEach((event) => {
+      (payloads[event] ?? [undefined]).forEach((payload) => {
+        const machine = replay(steps);
+        try {
+          if (!machine.can(event, payload)) {
+            const state = machine.value;
+            recordGuards([...steps, { event, payload, blocked: true, state }]);
+            return;
+          }
+
+          machine.send(event, payload);
+          const next = [...steps, { event, payload, state: machine.value }];
+          recorder.taken.forEach((id) => {
+            if (!transitionPaths.has(id)) transitionPaths.set(id, next);
+          });
+          recordGuards(next);
+          visit(machine, next);
+        } finally {
+          machine.stop();
+        }
+      });
+    });
+  }
+
+  // A path that another path starts with adds nothing to coverage
+  const transitionSteps = [...new Set(transitionPaths.values())];
+  const isPrefix = (short: TestStep[], long: TestStep[]) =>
+    short.length < long.length &&
+    short.every((step, index) => step === long[index]);
+
+  return {
+    name: config.id ?? "machine",
+    states: [...statePaths].map(([id, steps]) => ({
+      description: `reaches ${id} ${describeSteps(steps)}`,
+      steps,
+    })),
+    transitions: transitionSteps
+      .filter(
+        (steps) => !transitionSteps.some((other) => isPrefix(steps, other)),
+      )
+      .map((steps) => ({
+        description: `takes ${[...transitionPaths]
+          .filter(([, path]) => path === steps || isPrefix(path, steps))
+          .map(([id]) => id)
+          .join(", ")}`,
+        steps,
+      })),
+    guards: [...guardPaths].map(([id, steps]) => ({
+      description: `${id} ${describeSteps(steps)}`,
+      steps,
+    })),
+    coverage: {
+      states: toCoverage(
+        model.states.map((state) => state.id),
+        new Set(statePaths.keys()),
+      ),
+      transitions: toCoverage(
+        model.transitions,
+        new Set(transitionPaths.keys()),
+      ),
+      guards: toCoverage(model.guards, new Set(guardPaths.keys())),
+    },
+  };
+}
+
+/**
+ * Runs a test path against a fresh machine and throws at the first step
+ * that doesn't behave as planned. The machine is stopped afterwards.
+ */
+export function runTestPath(
+  createMachine: () => StateMachine<any, any, any>,
+  path: TestPath,
+): void {
+  const machine = createMachine();
+  try {
+    path.steps.forEach((step, index) => {
+      const label = `Step ${index + 1} (${step.event}) of '${path.description}'`;
+      if (step.blocked) {
+        if (machine.can(step.event, step.payload)) {
+          throw new Error(`${label}: expected the event to be refused`);
+        }
+        return;
+      }
+
+      machine.send(step.event, step.payload);
+      if (!deepEqual(machine.value, step.state)) {
+        throw new Error(
+          `${label}: expected ${JSON.stringify(step.state)}, got ${JSON.stringify(machine.value)}`,
+        );
+      }
+    });
+  } finally {
+    machine.stop();
+  }
+}
+
+export interface VitestSourceOptions {
+  /** Module that exports the machine factory, e.g. "./checkout-machine" */
+  importPath: string;
+  /** Name of a function returning a fresh machine */
+  factory: string;
+}
+
+const literal = (value: unknown) =>
+  value === undefined ? "undefined" : JSON.stringify(value);
+
+/**
+ * Writes a test plan as a Vitest file that replays every path against a
+ * fresh machine and checks the state after each step
+ */
+export function toVitestSource(
+  plan: TestPlan,
+  options: VitestSourceOptions,
+): string {
+  const renderPath = (path: TestPath) => {
+    const body = path.steps.map((step) => {
+      const payload =
+        step.payload === undefined ? "" : `, ${literal(step.payload)}`;
+      return step.blocked
+        ? `      expect(machine.can(${literal(step.event)}${payload})).toBe(false);`
+        : `      machine.send(${literal(step.event)}${payload});\n      expect(machine.value).toEqual(${literal(step.state)});`;
+    });
+    return [
+      `    it(${literal(path.description)}, () => {`,
+      `      const machine = ${options.factory}();`,
+      ...body,
+      "    });",
+    ].join("\n");
+  };
+
+  const renderGroup = (name: string, paths: TestPath[]) =>
+    paths.length === 0
+      ? []
+      : [
+          `  describe(${literal(name)}, () => {`,
+          paths.map(renderPath).join("\n\n"),
+          "  });",
+        ];
+
+  return [
+    "import { describe, it, expect } from 'vitest';",
+    `import { ${options.factory} } from ${literal(options.importPath)};`,
+    "",
+    `describe(${literal(`${plan.name} model`)}, () => {`,
+    ...renderGroup("states", plan.states),
+    ...renderGroup("transitions", plan.transitions),
+    ...renderGroup("guards", plan.guards),
+    "});",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,99 @@
+import { ReactiveState } from "./reactive-state.js";
+
+/**
+ * A pending write passed through the middleware chain
+ */
+export interface StateWrite<T> {
+  state: ReactiveState<T>;
+  /** The `name` option of the state, if it has one */
+  name?: string;
+  /** The value before the write */
+  previous: T;
+  /** The value about to be committed, as produced by earlier middleware */
+  value: T;
+  /** Cancels the write by throwing a `StateWriteRejectedError` */
+  reject: (_reason: string) => never;
+}
+
+/**
+ * Intercepts writes to reactive states. Call `next` with the value to commit,
+ * either unchanged or transformed; code after `next` runs once the write has
+ * committed. Returning without calling `next` silently drops the write.
+ */
+export type StateMiddleware<T = any> = (
+  _write: StateWrite<T>,
+  _next: (_value: T) => void,
+) => void;
+
+/**
+ * Thrown from `setValue` when a middleware rejects a write
+ */
+export class StateWriteRejectedError<T = unknown> extends Error {
+  readonly stateName: string | undefined;
+  /** The value that was rejected */
+  readonly value: T;
+  readonly reason: string;
+
+  constructor(stateName: string | undefined, value: T, reason: string) {
+    super(
+      stateName
+        ? `Write to state '${stateName}' was rejected: ${reason}`
+        : `State write was rejected: ${reason}`,
+    );
+    this.name = "StateWriteRejectedError";
+    this.stateName = stateName;
+    this.value = value;
+    this.reason = reason;
+  }
+}
+
+const globalMiddleware: StateMiddleware[] = [];
+
+/**
+ * Adds middleware that sees writes to every reactive state, before any
+ * per-state middleware. Returns a function that removes it again.
+ */
+export function addStateMiddleware(middleware: StateMiddleware): () => void {
+  globalMiddleware.push(middleware);
+  return () => {
+    const index = globalMiddleware.indexOf(middleware);
+    if (index !== -1) globalMiddleware.splice(index, 1);
+  };
+}
+
+/**
+ * The global middleware currently installed, in registration order
+ */
+export function getGlobalMiddleware(): readonly StateMiddleware[] {
+  return globalMiddleware;
+}
+
+/**
+ * Passes a write through `chain` and hands whatever comes out of it to
+ * `commit`
+ */
+export function runMiddleware<T>(
+  chain: readonly StateMiddleware<T>[],
+  write: Omit<StateWrite<T>, "reject">,
+  commit: (_value: T) => void,
+) {
+  const dispatch = (index: number, value: T) => {
+    if (index === chain.length) {
+      commit(value);
+      return;
+    }
+
+    chain[index](
+      {
+        ...write,
+        value,
+        reject: (_reason) => {
+          throw new StateWriteRejectedError(write.name, value, _reason);
+        },
+      },
+      (_value) => dispatch(index + 1, _value),
+    );
+  };
+
+  dispatch(0, write.value);
+}
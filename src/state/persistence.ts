@@ -0,0 +1,350 @@
+import fs from "fs-extra";
+import { browserGlobals, WebStorageArea } from "./globals.js";
+import {
+  createReactiveState,
+  ReactiveState,
+  registerWithScope,
+} from "./reactive-state.js";
+
+/**
+ * Where persisted states are stored. Methods may be sync or async; sync
+ * adapters such as localStorage hydrate before the first render.
+ */
+export interface StorageAdapter {
+  getItem: (_key: string) => string | null | Promise<string | null>;
+  setItem: (_key: string, _value: string) => void | Promise<void>;
+  removeItem: (_key: string) => void | Promise<void>;
+  /** Reports changes made to `key` by another tab or process */
+  subscribe?: (
+    _key: string,
+    _callback: (_value: string | null) => void,
+  ) => () => void;
+}
+
+export interface PersistOptions<T> {
+  key: string;
+  storage: StorageAdapter;
+  /** Schema version written alongside the value */
+  version?: number;
+  /**
+   * Upgrades persisted data one version at a time. `migrations[2]` receives
+   * data stored as version 1 and returns it in the version 2 shape.
+   */
+  migrations?: Record<number, (_data: any) => any>;
+  /** Milliseconds to wait for further changes before writing */
+  debounce?: number;
+  /** Converts the value to JSON-compatible data before it is written */
+  serialize?: (_value: T) => unknown;
+  /** Converts migrated data back into a value */
+  deserialize?: (_data: any) => T;
+  /** Apply changes made in other tabs (default: true) */
+  syncTabs?: boolean;
+  onError?: (_error: unknown) => void;
+}
+
+export interface PersistedState<T> extends ReactiveState<T> {
+  /** Becomes true once the stored value has been read */
+  hydrated: ReactiveState<boolean>;
+  /** Resolves once the stored value has been read */
+  ready: Promise<void>;
+  /** Writes a pending debounced value immediately and waits for it */
+  flush: () => Promise<void>;
+  /** Removes the value from storage */
+  clear: () => Promise<void>;
+  /** Stops persisting; the wrapped state keeps working */
+  dispose: () => void;
+}
+
+interface PersistedEnvelope {
+  version: number;
+  data: unknown;
+}
+
+interface WebStorageEvent {
+  key: string | null;
+  newValue: string | null;
+  storageArea: WebStorageArea | null;
+}
+
+/**
+ * Persists a reactive state through a storage adapter. The stored value is
+ * rehydrated at startup, migrated if its schema version is older, and every
+ * later change is written back (optionally debounced).
+ */
+export function persistState<T>(
+  state: ReactiveState<T>,
+  options: PersistOptions<T>,
+): PersistedState<T> {
+  const {
+    key,
+    storage,
+    version = 0,
+    migrations = {},
+    debounce = 0,
+    serialize = (_value: T) => _value as unknown,
+    deserialize = (_data: any) => _data as T,
+    syncTabs = true,
+    onError = () => {},
+  } = options;
+
+  const initialValue = state.value();
+  const hydrated = createReactiveState(false);
+  let isApplyingStoredValue = false;
+  let changedBeforeHydration = false;
+  let writeTimer: ReturnType<typeof setTimeout> | null = null;
+  let lastWrite: Promise<void> = Promise.resolve();
+  let isDisposed = false;
+
+  /**
+   * Parses a raw stored string and runs any migrations it needs
+   */
+  const decode = (raw: string): T => {
+    const envelope = JSON.parse(raw) as PersistedEnvelope;
+    const storedVersion = envelope.version ?? 0;
+
+    if (storedVersion > version) {
+      throw new Error(
+        `Persisted state '${key}' has version ${storedVersion}, newer than ${version}`,
+      );
+    }
+
+    let data = envelope.data;
+    for (let next = storedVersion + 1; next <= version; next++) {
+      if (migrations[next]) {
+        data = migrations[next](data);
+      }
+    }
+
+    return deserialize(data);
+  };
+
+  const encode = (value: T): string => {
+    const envelope: PersistedEnvelope = { version, data: serialize(value) };
+    return JSON.stringify(envelope);
+  };
+
+  /**
+   * Sets a value read from storage without writing it straight back
+   */
+  const applyStoredValue = (raw: string | null) => {
+    isApplyingStoredValue = true;
+    try {
+      state.setValue(raw === null ? initialValue : decode(raw));
+    } catch (error) {
+      onError(error);
+    } finally {
+      isApplyingStoredValue = false;
+    }
+  };
+
+  const write = () => {
+    if (writeTimer) {
+      clearTimeout(writeTimer);
+      writeTimer = null;
+    }
+
+    lastWrite = (async () => {
+      try {
+        await storage.setItem(key, encode(state.value()));
+      } catch (error) {
+        onError(error);
+      }
+    })();
+    return lastWrite;
+  };
+
+  const scheduleWrite = () => {
+    if (debounce <= 0) {
+      void write();
+      return;
+    }
+
+    if (writeTimer) clearTimeout(writeTimer);
+    writeTimer = setTimeout(() => void write(), debounce);
+  };
+
+  const unsubscribeState = state.subscribe(() => {
+    if (isApplyingStoredValue || isDisposed) return;
+
+    if (!hydrated.value()) {
+      changedBeforeHydration = true;
+    }
+    scheduleWrite();
+  });
+
+  const finishHydration = (raw: string | null) => {
+    // A local change made while reading wins over the stored value
+    if (raw !== null && !changedBeforeHydration) {
+      applyStoredValue(raw);
+    }
+    hydrated.setValue(true);
+  };
+
+  let ready: Promise<void>;
+  try {
+    const stored = storage.getItem(key);
+    ready =
+      stored instanceof Promise
+        ? stored.then(finishHydration, (error) => {
+            onError(error);
+            hydrated.setValue(true);
+          })
+        : Promise.resolve(finishHydration(stored));
+  } catch (error) {
+    onError(error);
+    hydrated.setValue(true);
+    ready = Promise.resolve();
+  }
+
+  const unsubscribeStorage =
+    syncTabs && storage.subscribe
+      ? storage.subscribe(key, applyStoredValue)
+      : () => {};
+
+  const flush = () => (writeTimer ? write() : lastWrite);
+
+  const clear = async () => {
+    if (writeTimer) {
+      clearTimeout(writeTimer);
+      writeTimer = null;
+    }
+
+    try {
+      await storage.removeItem(key);
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  const dispose = () => {
+    if (isDisposed) return;
+    isDisposed = true;
+    unregister();
+    unsubscribeState();
+    unsubscribeStorage();
+
+    // Don't lose a write that is still waiting for its debounce
+    if (writeTimer) {
+      void write();
+    }
+  };
+
+  const unregister = registerWithScope(dispose);
+
+  return {
+    ...state,
+    hydrated,
+    ready,
+    flush,
+    clear,
+    dispose,
+  };
+}
+
+/**
+ * Wraps a Web Storage area, reporting cross-tab changes through the
+ * `storage` event. Falls back to a no-op store where the area is missing,
+ * e.g. during server rendering.
+ */
+function createWebStorageAdapter(
+  getStorage: () => WebStorageArea | undefined,
+): StorageAdapter {
+  return {
+    getItem: (_key) => getStorage()?.getItem(_key) ?? null,
+    setItem: (_key, _value) => getStorage()?.setItem(_key, _value),
+    removeItem: (_key) => getStorage()?.removeItem(_key),
+    subscribe: (_key, _callback) => {
+      if (!browserGlobals.addEventListener) {
+        return () => {};
+      }
+
+      const handler = (event: unknown) => {
+        const storageEvent = event as WebStorageEvent;
+        if (
+          storageEvent.key === _key &&
+          storageEvent.storageArea === getStorage()
+        ) {
+          _callback(storageEvent.newValue);
+        }
+      };
+
+      browserGlobals.addEventListener("storage", handler);
+      return () => browserGlobals.removeEventListener?.("storage", handler);
+    },
+  };
+}
+
+/**
+ * Creates a storage adapter backed by localStorage
+ */
+export function createLocalStorageAdapter(): StorageAdapter {
+  return createWebStorageAdapter(() => browserGlobals.localStorage);
+}
+
+/**
+ * Creates a storage adapter backed by sessionStorage
+ */
+export function createSessionStorageAdapter(): StorageAdapter {
+  return createWebStorageAdapter(() => browserGlobals.sessionStorage);
+}
+
+/**
+ * Creates an in-memory storage adapter, useful for tests and server code
+ */
+export function createMemoryStorageAdapter(
+  initialEntries: Record<string, string> = {},
+): StorageAdapter {
+  const entries = new Map(Object.entries(initialEntries));
+
+  return {
+    getItem: (_key) => entries.get(_key) ?? null,
+    setItem: (_key, _value) => {
+      entries.set(_key, _value);
+    },
+    removeItem: (_key) => {
+      entries.delete(_key);
+    },
+  };
+}
+
+/**
+ * Creates a storage adapter that keeps every key in a single JSON file.
+ * Writes are serialized so concurrent updates never interleave.
+ */
+export function createFileStorageAdapter(filePath: string): StorageAdapter {
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  const readAll = async (): Promise<Record<string, string>> => {
+    if (!(await fs.pathExists(filePath))) {
+      return {};
+    }
+    return fs.readJson(filePath);
+  };
+
+  const update = (change: (_entries: Record<string, string>) => void) => {
+    pendingWrite = pendingWrite
+      .catch(() => {})
+      .then(async () => {
+        const entries = await readAll();
+        change(entries);
+        await fs.outputJson(filePath, entries, { spaces: 2 });
+      });
+    return pendingWrite;
+  };
+
+  return {
+    getItem: async (_key) => {
+      await pendingWrite.catch(() => {});
+      const entries = await readAll();
+      return entries[_key] ?? null;
+    },
+    setItem: (_key, _value) =>
+      update((entries) => {
+        entries[_key] = _value;
+      }),
+    removeItem: (_key) =>
+      update((entries) => {
+        delete entries[_key];
+      }),
+  };
+}
@@ -1,58 +1,502 @@
+import { EqualityOption, resolveEquality } from "./equality.js";
+import {
+  getGlobalMiddleware,
+  runMiddleware,
+  StateMiddleware,
+} from "./middleware.js";
+import {
+  DEFERRED_PRIORITIES,
+  DeferredPriority,
+  EffectPriority,
+  resolveScheduler,
+  SchedulerOption,
+} from "./scheduler.js";
+
 export interface ReactiveState<T> {
   value: () => T;
   setValue: (_newValue: T | ((_prev: T) => T)) => void;
   subscribe: (_callback: (_value: T) => void) => () => void;
-  derive: <U>(_fn: (_value: T) => U) => ReactiveState<U>;
+  derive: <U>(
+    _fn: (_value: T) => U,
+    _options?: StateOptions<U>,
+  ) => ReactiveState<U>;
   update?: () => void; // Optional update method for derived states
+  dispose?: () => void; // Detaches the state from the graph and drops its subscribers
 }
 
 export type StateSetter<T> = T | ((_prev: T) => void);
 
+/**
+ * Maps a tuple or record of reactive states to the values they hold
+ */
+export type ReactiveValues<S> = {
+  [K in keyof S]: S[K] extends ReactiveState<infer V> ? V : never;
+};
+
+export interface StateOptions<T> {
+  /**
+   * Decides whether a new value counts as a change (default: "strict").
+   * Equal values are dropped without notifying anything downstream.
+   */
+  equals?: EqualityOption<T>;
+}
+
+export interface ReactiveStateOptions<T> extends StateOptions<T> {
+  /** Identifies the state in middleware and devtools */
+  name?: string;
+  /** Intercepts writes to this state, after global middleware */
+  middleware?: StateMiddleware<T>[];
+  /**
+   * Whether global middleware sees writes to this state (default: true).
+   * Library internals such as store and collection signals turn this off.
+   */
+  intercept?: boolean;
+}
+
+export interface BatchOptions {
+  /** Restore every state written inside the batch if an update throws */
+  rollback?: boolean;
+}
+
+/**
+ * An ownership scope. Reactive states, derived states and effects created
+ * while a scope is running belong to it and are torn down when it is disposed.
+ */
+export interface ReactiveScope {
+  /** Runs `fn` with this scope as the owner of everything it creates */
+  run: <T>(_fn: () => T) => T;
+  /** Registers a cleanup callback; returns a function that removes it again */
+  onCleanup: (_fn: () => void) => () => void;
+  /** Disposes child scopes and runs cleanups in reverse registration order */
+  dispose: () => void;
+  readonly isDisposed: boolean;
+}
+
+export interface ScopeOptions {
+  /** Don't dispose this scope together with the scope it was created in */
+  detached?: boolean;
+}
+
+export interface EffectOptions {
+  /** When the effect re-runs after a change (default: the configured default) */
+  priority?: EffectPriority;
+}
+
+export interface SchedulerConfig {
+  /** Priority of effects created without one (default: "sync") */
+  defaultPriority: EffectPriority;
+  high: SchedulerOption;
+  normal: SchedulerOption;
+  low: SchedulerOption;
+}
+
+/**
+ * "check" means an upstream derived state may have changed, "dirty" means a
+ * direct source did change and the node must re-run.
+ */
+type NodeStatus = "clean" | "check" | "dirty";
+
+/**
+ * A node in the signal graph. Reactive states are sources, effects are
+ * observers, and derived states are both.
+ */
+interface ReactiveNode {
+  kind: "state" | "derived" | "effect";
+  status: NodeStatus;
+  sources: Set<ReactiveNode>;
+  observers: Set<ReactiveNode>;
+  /** Recomputes a derived state or re-runs an effect */
+  run: () => void;
+  /** Whether the node has to be brought up to date when a batch commits */
+  isEager: () => boolean;
+  /** Delivers the latest value to `subscribe` callbacks if it changed */
+  notifySubscribers: () => void;
+  /** When an effect re-runs; unset for other nodes */
+  priority?: EffectPriority;
+}
+
 // Global dependency tracking
-let currentComputation: ReactiveState<any> | null = null;
-const dependencyGraph = new Map<ReactiveState<any>, Set<ReactiveState<any>>>();
+let currentObserver: ReactiveNode | null = null;
+
+// Ownership
+let currentScope: ReactiveScope | null = null;
+
+// Transaction state
+let batchDepth = 0;
+let isFlushing = false;
+const transactions: Map<ReactiveNode, () => void>[] = [];
+const pendingComputations = new Set<ReactiveNode>();
+const pendingNotifications = new Set<ReactiveNode>();
+const pendingEffects = new Set<ReactiveNode>();
+
+// Scheduling of deferred effects
+let schedulerConfig: SchedulerConfig = {
+  defaultPriority: "sync",
+  high: "microtask",
+  normal: "animation-frame",
+  low: "idle",
+};
+const deferredEffects: Record<DeferredPriority, Set<ReactiveNode>> = {
+  high: new Set(),
+  normal: new Set(),
+  low: new Set(),
+};
+const scheduledPriorities = new Set<DeferredPriority>();
+
+/**
+ * Registers a read of `node` with the computation currently running, if any
+ */
+function trackRead(node: ReactiveNode) {
+  if (currentObserver && currentObserver !== node) {
+    currentObserver.sources.add(node);
+    node.observers.add(currentObserver);
+  }
+}
+
+/**
+ * Detaches an observer from every source it read during its last run
+ */
+function clearSources(node: ReactiveNode) {
+  node.sources.forEach((source) => source.observers.delete(node));
+  node.sources.clear();
+}
+
+/**
+ * Runs `fn` with `node` as the current observer. Sources are re-collected on
+ * every run so dependencies read behind conditionals stay accurate.
+ */
+function runTracked<R>(node: ReactiveNode, fn: () => R): R {
+  clearSources(node);
+  const prevObserver = currentObserver;
+  currentObserver = node;
+  try {
+    return fn();
+  } finally {
+    currentObserver = prevObserver;
+  }
+}
+
+/**
+ * Raises the status of an observer and marks everything downstream of it as
+ * possibly stale. Eager nodes are queued so the next flush can pull them.
+ */
+function markObserver(node: ReactiveNode, status: "check" | "dirty") {
+  // An effect never re-triggers itself by writing to a state it reads
+  if (node === currentObserver) return;
+
+  const wasClean = node.status === "clean";
+  if (status === "dirty" || wasClean) {
+    node.status = status;
+  }
+
+  if (wasClean) {
+    if (node.isEager()) {
+      if (node.kind === "effect") {
+        scheduleEffect(node);
+      } else {
+        pendingComputations.add(node);
+      }
+    }
+    node.observers.forEach((observer) => markObserver(observer, "check"));
+  }
+}
+
+/**
+ * Queues a stale effect. Sync effects run at the end of the current flush;
+ * deferred ones wait for their priority's scheduler, so repeated changes in
+ * the meantime coalesce into a single run.
+ */
+function scheduleEffect(node: ReactiveNode) {
+  const priority = node.priority ?? schedulerConfig.defaultPriority;
+  const scheduler =
+    priority === "sync" ? null : resolveScheduler(schedulerConfig[priority]);
+
+  if (priority === "sync" || !scheduler) {
+    pendingEffects.add(node);
+    return;
+  }
+
+  deferredEffects[priority].add(node);
+  if (!scheduledPriorities.has(priority)) {
+    scheduledPriorities.add(priority);
+    scheduler(() => runDeferredEffects(priority));
+  }
+}
+
+/**
+ * Runs the effects waiting for `priority`. Their sources are pulled as they
+ * run, so derived states they read are only recomputed now.
+ */
+function runDeferredEffects(priority: DeferredPriority) {
+  scheduledPriorities.delete(priority);
+  const queue = deferredEffects[priority];
+  queue.forEach((node) => pendingEffects.add(node));
+  queue.clear();
+  flush();
+}
+
+/**
+ * Marks every direct observer of a changed node as dirty
+ */
+function markObserversDirty(node: ReactiveNode) {
+  [...node.observers].forEach((observer) => markObserver(observer, "dirty"));
+}
+
+/**
+ * Brings a node up to date by first pulling its possibly-stale sources.
+ * Sources are always settled before their observers, so every node is
+ * recomputed at most once per flush and never sees a half-updated graph.
+ */
+function updateIfNecessary(node: ReactiveNode) {
+  if (node.status === "check") {
+    for (const source of [...node.sources]) {
+      updateIfNecessary(source);
+      if ((node.status as NodeStatus) === "dirty") break;
+    }
+  }
+
+  if (node.status === "dirty") {
+    node.run();
+  }
+  node.status = "clean";
+}
+
+/**
+ * Propagates pending changes: derived states settle first, then subscribers
+ * are notified, then effects run. Writes made along the way are picked up
+ * by the same loop. An effect that throws doesn't stop the others; the
+ * first error is rethrown once the queue is empty.
+ */
+function flush() {
+  if (batchDepth > 0 || isFlushing) return;
+
+  isFlushing = true;
+  const errors: unknown[] = [];
+  try {
+    while (
+      pendingComputations.size > 0 ||
+      pendingNotifications.size > 0 ||
+      pendingEffects.size > 0
+    ) {
+      const computations = [...pendingComputations];
+      pendingComputations.clear();
+      computations.forEach(updateIfNecessary);
+
+      const notifications = [...pendingNotifications];
+      pendingNotifications.clear();
+      notifications.forEach((node) => node.notifySubscribers());
+
+      if (pendingComputations.size > 0 || pendingNotifications.size > 0) {
+        continue;
+      }
+
+      const effects = [...pendingEffects];
+      pendingEffects.clear();
+      effects.forEach((node) => {
+        try {
+          updateIfNecessary(node);
+        } catch (error) {
+          // Clean again, so the next change to its sources schedules it
+          node.status = "clean";
+          errors.push(error);
+        }
+      });
+    }
+
+    if (errors.length > 0) throw errors[0];
+  } finally {
+    isFlushing = false;
+  }
+}
+
+/**
+ * Runs `fn` without registering any of its reads as dependencies
+ */
+export function untrack<T>(fn: () => T): T {
+  const prevObserver = currentObserver;
+  currentObserver = null;
+  try {
+    return fn();
+  } finally {
+    currentObserver = prevObserver;
+  }
+}
+
+/**
+ * Creates an ownership scope. Unless `detached`, the scope is itself owned by
+ * the scope that is current when it is created.
+ */
+export function createScope(options: ScopeOptions = {}): ReactiveScope {
+  const cleanups = new Set<() => void>();
+  let isDisposed = false;
+
+  const onCleanup = (_fn: () => void) => {
+    if (isDisposed) {
+      _fn();
+      return () => {};
+    }
+    cleanups.add(_fn);
+    return () => {
+      cleanups.delete(_fn);
+    };
+  };
+
+  const run = <T>(_fn: () => T): T => {
+    const prevScope = currentScope;
+    currentScope = scope;
+    try {
+      return _fn();
+    } finally {
+      currentScope = prevScope;
+    }
+  };
+
+  const dispose = () => {
+    if (isDisposed) return;
+    isDisposed = true;
+    removeFromParent();
+
+    // Keep going if a cleanup throws so nothing else leaks
+    const errors: unknown[] = [];
+    [...cleanups].reverse().forEach((cleanup) => {
+      try {
+        cleanup();
+      } catch (error) {
+        errors.push(error);
+      }
+    });
+    cleanups.clear();
+
+    if (errors.length > 0) {
+      throw errors[0];
+    }
+  };
+
+  const scope: ReactiveScope = {
+    run,
+    onCleanup,
+    dispose,
+    get isDisposed() {
+      return isDisposed;
+    },
+  };
+
+  const removeFromParent =
+    !options.detached && currentScope
+      ? currentScope.onCleanup(dispose)
+      : () => {};
+
+  return scope;
+}
+
+/**
+ * Runs `fn` inside a new detached scope and hands it the scope's dispose
+ * function. Use one root per component instance or per server request.
+ */
+export function createRoot<T>(fn: (_dispose: () => void) => T): T {
+  const scope = createScope({ detached: true });
+  return scope.run(() => fn(scope.dispose));
+}
+
+/**
+ * Returns the scope that currently owns newly created reactive primitives
+ */
+export function getCurrentScope(): ReactiveScope | null {
+  return currentScope;
+}
+
+/**
+ * Registers a cleanup with the current scope. Inside an effect the cleanup
+ * runs before the effect re-runs and when it is stopped.
+ */
+export function onCleanup(fn: () => void): void {
+  currentScope?.onCleanup(fn);
+}
+
+/**
+ * Registers `dispose` with the current scope, if any, and returns a function
+ * that removes the registration again. Call it from `dispose` so disposing
+ * early doesn't leave the scope holding on to it.
+ */
+export function registerWithScope(dispose: () => void): () => void {
+  return currentScope ? currentScope.onCleanup(dispose) : () => {};
+}
 
 /**
  * Creates a reactive state primitive that automatically tracks dependencies
  * and eliminates the need for manual useMemo/useCallback
  */
-export function createReactiveState<T>(initialValue: T): ReactiveState<T> {
+export function createReactiveState<T>(
+  initialValue: T,
+  options: ReactiveStateOptions<T> = {},
+): ReactiveState<T> {
+  const { name, middleware = [], intercept = true } = options;
+  const equals = resolveEquality(options.equals);
   let currentValue = initialValue;
-  const subscribers = new Set<(value: T) => void>();
-  const derivedStates = new Set<ReactiveState<any>>();
+  let notifiedValue = initialValue;
+  const subscribers = new Set<(_value: T) => void>();
+  const node: ReactiveNode = {
+    kind: "state",
+    status: "clean",
+    sources: new Set(),
+    observers: new Set(),
+    run: () => {},
+    isEager: () => false,
+    notifySubscribers: () => {
+      if (equals(notifiedValue, currentValue)) return;
+      notifiedValue = currentValue;
+      subscribers.forEach((callback) => callback(currentValue));
+    },
+  };
+
+  const write = (nextValue: T) => {
+    currentValue = nextValue;
+    pendingNotifications.add(node);
+    markObserversDirty(node);
+  };
 
   const value = () => {
     // Track dependency if we're inside a computation
-    if (currentComputation) {
-      if (!dependencyGraph.has(currentComputation)) {
-        dependencyGraph.set(currentComputation, new Set());
-      }
-      dependencyGraph
-        .get(currentComputation)!
-        .add({ value, setValue, subscribe, derive } as ReactiveState<T>);
-    }
+    trackRead(node);
     return currentValue;
   };
 
+  const commit = (nextValue: T) => {
+    // Middleware may have transformed the value into the current one
+    if (equals(currentValue, nextValue)) return;
+
+    // Remember the value from before the transaction for rollback
+    const journal = transactions[transactions.length - 1];
+    if (journal && !journal.has(node)) {
+      const previousValue = currentValue;
+      journal.set(node, () => write(previousValue));
+    }
+
+    write(nextValue);
+    flush();
+  };
+
   const setValue = (_newValue: T | ((_prev: T) => T)) => {
     const nextValue =
       typeof _newValue === "function"
         ? (_newValue as (_prev: T) => T)(currentValue)
         : _newValue;
 
-    if (nextValue !== currentValue) {
-      currentValue = nextValue;
+    if (equals(currentValue, nextValue)) return;
 
-      // Notify direct subscribers
-      subscribers.forEach((callback) => callback(currentValue));
-
-      // Notify derived states
-      derivedStates.forEach((derivedState) => {
-        if (derivedState.update) {
-          derivedState.update();
-        }
-      });
+    const chain = intercept
+      ? [...getGlobalMiddleware(), ...middleware]
+      : middleware;
+    if (chain.length === 0) {
+      commit(nextValue);
+      return;
     }
+
+    runMiddleware(
+      chain,
+      { state, name, previous: currentValue, value: nextValue },
+      commit,
+    );
   };
 
   const subscribe = (_callback: (_value: T) => void) => {
@@ -60,136 +504,304 @@ export function createReactiveState<T>(initialValue: T): ReactiveState<T> {
     return () => subscribers.delete(_callback);
   };
 
-  const derive = <U>(_fn: (_value: T) => U) => {
-    const derivedState = createDerivedState(_fn, {
-      value,
-      setValue,
-      subscribe,
-      derive,
-    } as ReactiveState<T>);
-    derivedStates.add(derivedState);
-    return derivedState;
+  const dispose = () => {
+    unregister();
+    subscribers.clear();
+    pendingNotifications.delete(node);
+    node.observers.forEach((observer) => observer.sources.delete(node));
+    node.observers.clear();
   };
 
-  return {
+  const unregister = registerWithScope(dispose);
+
+  const state: ReactiveState<T> = {
     value,
     setValue,
     subscribe,
-    derive,
+    derive: <U>(_fn: (_value: T) => U, _options?: StateOptions<U>) =>
+      createDerivedState(_fn, state, _options),
+    dispose,
   };
+
+  return state;
 }
 
 /**
- * Creates a derived state that automatically updates when dependencies change
+ * Creates a derived node whose value is recomputed when any reactive state
+ * read by `compute` changes
  */
-export function createDerivedState<T, U>(
-  fn: (_value: T) => U,
-  dependency: ReactiveState<T>,
+function createComputation<U>(
+  compute: () => U,
+  options: StateOptions<U> = {},
 ): ReactiveState<U> {
+  const equals = resolveEquality(options.equals);
   let currentValue: U;
-  let isDirty = true;
-  const subscribers = new Set<(value: U) => void>();
-
-  const compute = () => {
-    if (isDirty) {
-      const prevComputation = currentComputation;
-      currentComputation = {
-        value,
-        setValue,
-        subscribe,
-        derive,
-        update,
-      } as ReactiveState<U>;
+  let notifiedValue: U;
+  let isComputing = false;
+  let isDisposed = false;
+  let runScope: ReactiveScope | null = null;
+  const subscribers = new Set<(_value: U) => void>();
 
-      try {
-        currentValue = fn(dependency.value());
-        isDirty = false;
-      } finally {
-        currentComputation = prevComputation;
-      }
+  const recompute = (): U => {
+    if (isComputing) {
+      throw new Error("Circular dependency detected in derived state");
+    }
+
+    isComputing = true;
+    try {
+      // Anything created by the previous run is owned by that run
+      runScope?.dispose();
+      const scope = createScope({ detached: true });
+      runScope = scope;
+      return scope.run(() => runTracked(node, compute));
+    } finally {
+      isComputing = false;
     }
-    return currentValue;
   };
 
-  const value = () => {
-    return compute();
+  const node: ReactiveNode = {
+    kind: "derived",
+    status: "dirty",
+    sources: new Set(),
+    observers: new Set(),
+    run: () => {
+      if (isDisposed) return;
+
+      // An equal result keeps the old value so downstream identity is stable
+      const nextValue = recompute();
+      if (!equals(currentValue, nextValue)) {
+        currentValue = nextValue;
+        pendingNotifications.add(node);
+        markObserversDirty(node);
+      }
+    },
+    // Without subscribers the value is only recomputed when it is read
+    isEager: () => subscribers.size > 0,
+    notifySubscribers: () => {
+      if (equals(notifiedValue, currentValue)) return;
+      notifiedValue = currentValue;
+      subscribers.forEach((callback) => callback(currentValue));
+    },
   };
 
-  const setValue = (newValue: U | ((prev: U) => U)) => {
-    throw new Error("Cannot set value on derived state");
+  const value = () => {
+    updateIfNecessary(node);
+    trackRead(node);
+    return currentValue;
   };
 
-  const subscribe = (callback: (value: U) => void) => {
-    subscribers.add(callback);
-    return () => subscribers.delete(callback);
+  const setValue = (_newValue: U | ((_prev: U) => U)) => {
+    throw new Error("Cannot set value on derived state");
   };
 
-  const derive = <V>(derivedFn: (value: U) => V) => {
-    return createDerivedState(derivedFn, {
-      value,
-      setValue,
-      subscribe,
-      derive,
-      update,
-    } as ReactiveState<U>);
+  const subscribe = (_callback: (_value: U) => void) => {
+    // Make sure the first notification compares against a fresh value
+    if (subscribers.size === 0) {
+      updateIfNecessary(node);
+      notifiedValue = currentValue;
+    }
+    subscribers.add(_callback);
+    return () => subscribers.delete(_callback);
   };
 
   const update = () => {
-    isDirty = true;
-    const oldValue = currentValue;
-    const newValue = compute();
+    node.status = "dirty";
+    updateIfNecessary(node);
+    flush();
+  };
 
-    if (newValue !== oldValue) {
-      subscribers.forEach((callback) => callback(newValue));
-    }
+  const dispose = () => {
+    // Keep the last value readable but stop reacting to sources
+    isDisposed = true;
+    unregister();
+    subscribers.clear();
+    pendingComputations.delete(node);
+    pendingNotifications.delete(node);
+    clearSources(node);
+    node.status = "clean";
+    runScope?.dispose();
   };
 
-  // Initial computation
-  compute();
+  const unregister = registerWithScope(dispose);
 
-  return {
+  const state: ReactiveState<U> = {
     value,
     setValue,
     subscribe,
-    derive,
+    derive: <V>(_fn: (_value: U) => V, _options?: StateOptions<V>) =>
+      createDerivedState(_fn, state, _options),
     update,
+    dispose,
   };
+
+  // Initial computation
+  currentValue = recompute();
+  node.status = "clean";
+  notifiedValue = currentValue!;
+
+  return state;
 }
 
 /**
- * Creates a computed value that automatically updates when dependencies change
+ * Creates a derived state that automatically updates when dependencies change
  */
-export function createComputed<T>(fn: () => T): ReactiveState<T> {
-  // Create a dummy dependency that we can derive from
-  const dummy = createReactiveState(null);
-  return dummy.derive(() => fn());
+export function createDerivedState<T, U>(
+  fn: (_value: T) => U,
+  dependency: ReactiveState<T>,
+  options: StateOptions<U> = {},
+): ReactiveState<U> {
+  return createComputation(() => fn(dependency.value()), options);
 }
 
 /**
- * Creates an effect that runs when dependencies change
+ * Creates a derived state from several reactive states at once. Sources can
+ * be passed as a tuple or a record; `fn` receives their values in the same
+ * shape. Disposing the result unsubscribes it from every source.
  */
-export function createReactiveEffect(fn: () => void): () => void {
-  // Create a dummy state to track dependencies
-  const dummy = createReactiveState(null);
+export function createCombinedState<
+  const S extends
+    | readonly ReactiveState<any>[]
+    | Record<string, ReactiveState<any>>,
+  U = ReactiveValues<S>,
+>(
+  sources: S,
+  fn: (_values: ReactiveValues<S>) => U = (_values) => _values as U,
+  options: StateOptions<U> = {},
+): ReactiveState<U> {
+  return createComputation(() => {
+    const values = Array.isArray(sources)
+      ? sources.map((source) => source.value())
+      : Object.fromEntries(
+          Object.entries(sources).map(([key, source]) => [key, source.value()]),
+        );
+    return fn(values as ReactiveValues<S>);
+  }, options);
+}
 
-  // Subscribe to changes and run the effect
-  const unsubscribe = dummy.subscribe(() => {
-    fn();
-  });
+/**
+ * Creates a computed value that automatically updates when dependencies change.
+ * Every reactive state read inside `fn` becomes a dependency.
+ */
+export function createComputed<T>(
+  fn: () => T,
+  options: StateOptions<T> = {},
+): ReactiveState<T> {
+  return createComputation(fn, options);
+}
+
+/**
+ * Creates an effect that runs when dependencies change. Every reactive state
+ * read inside `fn` becomes a dependency. A function returned from `fn` runs
+ * before the next run and when the effect is stopped; the returned function
+ * stops the effect.
+ */
+export function createReactiveEffect(
+  fn: () => void | (() => void),
+  options: EffectOptions = {},
+): () => void {
+  let isDisposed = false;
+  let runScope: ReactiveScope | null = null;
+  const node: ReactiveNode = {
+    kind: "effect",
+    status: "dirty",
+    sources: new Set(),
+    observers: new Set(),
+    run: () => {
+      if (isDisposed) return;
+
+      // Clean up the previous run, including anything it created
+      runScope?.dispose();
+      const scope = createScope({ detached: true });
+      runScope = scope;
+
+      const cleanup = scope.run(() => runTracked(node, fn));
+      if (typeof cleanup === "function") {
+        scope.onCleanup(cleanup);
+      }
+    },
+    isEager: () => !isDisposed,
+    notifySubscribers: () => {},
+    priority: options.priority,
+  };
+
+  const dispose = () => {
+    isDisposed = true;
+    unregister();
+    pendingEffects.delete(node);
+    DEFERRED_PRIORITIES.forEach((priority) =>
+      deferredEffects[priority].delete(node),
+    );
+    clearSources(node);
+    runScope?.dispose();
+  };
+
+  const unregister = registerWithScope(dispose);
 
   // Run once initially
-  fn();
+  updateIfNecessary(node);
+
+  return dispose;
+}
 
-  return unsubscribe;
+/**
+ * Changes which scheduler each effect priority uses and the default priority
+ * of new effects. Effects already waiting keep their scheduled run.
+ */
+export function configureScheduler(config: Partial<SchedulerConfig>): void {
+  schedulerConfig = { ...schedulerConfig, ...config };
 }
 
 /**
- * Batch multiple state updates together for performance
+ * Runs every deferred effect now, highest priority first. Useful in tests
+ * and before serializing state on the server.
  */
-export function batch<T>(updates: (() => void)[]): void {
-  // In a real implementation, this would batch updates
-  // For now, we'll run them sequentially
-  updates.forEach((update) => update());
+export function flushEffects(): void {
+  DEFERRED_PRIORITIES.forEach(runDeferredEffects);
+}
+
+/**
+ * Runs several state updates as one transaction. Subscribers, derived states
+ * and effects are only notified once the outermost batch commits, so they
+ * never observe intermediate values. Batches can be nested; with
+ * `rollback: true` a throwing update restores every state the batch wrote.
+ */
+export function batch<T = void>(
+  updates: (() => T) | (() => void)[],
+  options: BatchOptions = {},
+): T {
+  const journal = new Map<ReactiveNode, () => void>();
+  const parentJournal = transactions[transactions.length - 1];
+  transactions.push(journal);
+  batchDepth++;
+
+  // Hands our rollback entries to the enclosing transaction, which may
+  // still roll back even if this batch succeeds or doesn't roll back itself
+  const mergeIntoParent = () => {
+    journal.forEach((restore, node) => {
+      if (parentJournal && !parentJournal.has(node)) {
+        parentJournal.set(node, restore);
+      }
+    });
+  };
+
+  try {
+    const result = Array.isArray(updates)
+      ? (updates.forEach((update) => update()) as T)
+      : updates();
+
+    mergeIntoParent();
+    return result;
+  } catch (error) {
+    mergeIntoParent();
+    if (options.rollback) {
+      [...journal.values()].reverse().forEach((restore) => restore());
+    }
+    throw error;
+  } finally {
+    transactions.pop();
+    batchDepth--;
+    flush();
+  }
 }
 
 /**
@@ -210,13 +822,5 @@ export function createMemoizedSelector<T, U>(
   selector: (_value: T) => U,
   equalityFn: (_a: U, _b: U) => boolean = (_a, _b) => _a === _b,
 ): ReactiveState<U> {
-  let lastValue: U | undefined;
-
-  return state.derive((_value) => {
-    const newValue = selector(_value);
-    if (lastValue === undefined || !equalityFn(lastValue, newValue)) {
-      lastValue = newValue;
-    }
-    return lastValue;
-  });
+  return state.derive(selector, { equals: equalityFn });
 }
@@ -0,0 +1,173 @@
+import {
+  createComputed,
+  createReactiveEffect,
+  createReactiveState,
+  ReactiveState,
+  registerWithScope,
+  untrack,
+} from "./reactive-state.js";
+
+export interface ResourceState<T> {
+  value: T | undefined;
+  loading: boolean;
+  error: unknown;
+  /** Settles when the current run finishes; never rejects */
+  promise: Promise<T | undefined> | null;
+}
+
+export interface ResourceFetcherInfo<T> {
+  /** Aborted as soon as a newer run starts or the resource is disposed */
+  signal: AbortSignal;
+  /** Value produced by the previous successful run */
+  previous: T | undefined;
+  /** True when the run was started by `refetch()` */
+  refetching: boolean;
+}
+
+export interface ResourceOptions<T> {
+  initialValue?: T;
+}
+
+/**
+ * Async derived state. The value is `undefined` until the first run
+ * succeeds; `setValue` overwrites it locally, e.g. for optimistic updates.
+ */
+export interface Resource<T> extends ReactiveState<T | undefined> {
+  loading: ReactiveState<boolean>;
+  error: ReactiveState<unknown>;
+  /** The value, loading flag, error and in-flight promise together */
+  state: ReactiveState<ResourceState<T>>;
+  /** Runs the fetcher again with the current source value */
+  refetch: () => Promise<T | undefined>;
+  dispose: () => void;
+}
+
+/**
+ * Creates an async derived value. `source` is tracked like a computed; each
+ * time its result changes the fetcher runs again and the previous run is
+ * aborted through its AbortSignal, so stale responses are never applied.
+ * A source returning `undefined`, `null` or `false` skips fetching.
+ */
+export function createResource<S, T>(
+  source: () => S | undefined | null | false,
+  fetcher: (_source: S, _info: ResourceFetcherInfo<T>) => Promise<T> | T,
+  options: ResourceOptions<T> = {},
+): Resource<T> {
+  const state = createReactiveState<ResourceState<T>>({
+    value: options.initialValue,
+    loading: false,
+    error: undefined,
+    promise: null,
+  });
+  let controller: AbortController | null = null;
+  let currentSource: S | undefined | null | false = undefined;
+
+  const load = (
+    input: S | undefined | null | false,
+    refetching: boolean,
+  ): Promise<T | undefined> => {
+    controller?.abort();
+    controller = null;
+
+    if (input === undefined || input === null || input === false) {
+      state.setValue((prev) => ({ ...prev, loading: false, promise: null }));
+      return Promise.resolve(state.value().value);
+    }
+
+    const runController = new AbortController();
+    controller = runController;
+
+    let result: Promise<T>;
+    try {
+      result = Promise.resolve(
+        untrack(() =>
+          fetcher(input, {
+            signal: runController.signal,
+            previous: state.value().value,
+            refetching,
+          }),
+        ),
+      );
+    } catch (error) {
+      result = Promise.reject(error);
+    }
+
+    const isCurrent = () => controller === runController;
+
+    const promise = result.then(
+      (value) => {
+        if (isCurrent()) {
+          controller = null;
+          state.setValue({ value, loading: false, error: undefined, promise });
+        }
+        return value;
+      },
+      (error) => {
+        if (isCurrent()) {
+          controller = null;
+          state.setValue((prev) => ({
+            ...prev,
+            loading: false,
+            error,
+            promise,
+          }));
+        }
+        return undefined;
+      },
+    );
+
+    state.setValue((prev) => ({
+      ...prev,
+      loading: true,
+      error: undefined,
+      promise,
+    }));
+    return promise;
+  };
+
+  // Memoized so that a change the source reads but doesn't pass on is ignored
+  const trackedSource = createComputed(source);
+  const stopTracking = createReactiveEffect(() => {
+    const input = trackedSource.value();
+    currentSource = input;
+    untrack(() => load(input, false));
+  });
+
+  const refetch = () => load(currentSource, true);
+
+  const setValue = (
+    _newValue: T | undefined | ((_prev: T | undefined) => T | undefined),
+  ) => {
+    state.setValue((prev) => ({
+      ...prev,
+      value:
+        typeof _newValue === "function"
+          ? (_newValue as (_prev: T | undefined) => T | undefined)(prev.value)
+          : _newValue,
+    }));
+  };
+
+  const value = state.derive((s) => s.value);
+
+  const dispose = () => {
+    unregister();
+    stopTracking();
+    trackedSource.dispose?.();
+    controller?.abort();
+    controller = null;
+  };
+
+  const unregister = registerWithScope(dispose);
+
+  return {
+    value: value.value,
+    setValue,
+    subscribe: value.subscribe,
+    derive: value.derive,
+    loading: state.derive((s) => s.loading),
+    error: state.derive((s) => s.error),
+    state,
+    refetch,
+    dispose,
+  };
+}
@@ -0,0 +1,58 @@
+import { browserGlobals } from "./globals.js";
+
+/**
+ * Runs a task at some later point. Schedulers only decide when; the
+ * reactive graph decides what runs and in which order.
+ */
+export type Scheduler = (_task: () => void) => void;
+
+export type SchedulerKind = "sync" | "microtask" | "animation-frame" | "idle";
+
+export type SchedulerOption = SchedulerKind | Scheduler;
+
+/**
+ * How urgently an effect re-runs after its dependencies change:
+ * - "sync": inside the `setValue` or `batch` that caused it (the default)
+ * - "high", "normal", "low": deferred to the scheduler configured for that
+ *   priority, by default a microtask, an animation frame and idle time
+ */
+export type EffectPriority = "sync" | "high" | "normal" | "low";
+
+export type DeferredPriority = Exclude<EffectPriority, "sync">;
+
+// Higher priorities run first when several are flushed together
+export const DEFERRED_PRIORITIES: DeferredPriority[] = [
+  "high",
+  "normal",
+  "low",
+];
+
+const animationFrame: Scheduler = (task) => {
+  if (browserGlobals.requestAnimationFrame) {
+    browserGlobals.requestAnimationFrame(() => task());
+  } else {
+    setTimeout(task, 16);
+  }
+};
+
+const idle: Scheduler = (task) => {
+  if (browserGlobals.requestIdleCallback) {
+    browserGlobals.requestIdleCallback(() => task());
+  } else {
+    setTimeout(task, 1);
+  }
+};
+
+const schedulers: Record<Exclude<SchedulerKind, "sync">, Scheduler> = {
+  microtask: (task) => queueMicrotask(task),
+  "animation-frame": animationFrame,
+  idle,
+};
+
+/**
+ * Turns a scheduler option into a scheduler, or `null` for "sync"
+ */
+export function resolveScheduler(option: SchedulerOption): Scheduler | null {
+  if (option === "sync") return null;
+  return typeof option === "function" ? option : schedulers[option];
+}
@@ -0,0 +1,408 @@
+import {
+  createReactiveState,
+  ReactiveState,
+  ReactiveStateOptions,
+} from "./reactive-state.js";
+
+export type SchemaPath = (string | number)[];
+
+export interface SchemaIssue {
+  /** Where the problem is, e.g. `["users", 0, "email"]` */
+  path: SchemaPath;
+  message: string;
+}
+
+export type SchemaResult<T> =
+  | { success: true; value: T }
+  | { success: false; issues: SchemaIssue[] };
+
+/**
+ * A runtime validator for values of type `T`. Parsing returns a new value
+ * where coercing schemas have converted their input and objects have been
+ * stripped of unknown keys.
+ */
+export interface Schema<T> {
+  /** Returns the parsed value or throws a `SchemaValidationError` */
+  parse: (_input: unknown) => T;
+  safeParse: (_input: unknown) => SchemaResult<T>;
+  /** Also accepts `undefined` */
+  optional: () => Schema<T | undefined>;
+  /** Replaces `undefined` with `value` */
+  default: (_value: T) => Schema<T>;
+  /** Adds a custom check; `check` returns an error message or nothing */
+  refine: (_check: (_value: T) => string | undefined | void) => Schema<T>;
+}
+
+/**
+ * The type a schema validates, e.g. `Infer<typeof userSchema>`
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type ObjectShape = Record<string, Schema<any>>;
+
+type OptionalKeys<S extends ObjectShape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+
+type InferShape<S extends ObjectShape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+} extends infer O
+  ? { [K in keyof O]: O[K] }
+  : never;
+
+export interface StringSchemaOptions {
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+  /** Convert numbers and booleans to strings */
+  coerce?: boolean;
+}
+
+export interface NumberSchemaOptions {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  /** Convert numeric strings to numbers */
+  coerce?: boolean;
+}
+
+export interface ArraySchemaOptions {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Thrown by `parse` when the input doesn't match the schema
+ */
+export class SchemaValidationError extends Error {
+  readonly issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[]) {
+    super(formatIssues(issues));
+    this.name = "SchemaValidationError";
+    this.issues = issues;
+  }
+}
+
+type Check<T> = (
+  _input: unknown,
+  _path: SchemaPath,
+  _issues: SchemaIssue[],
+) => T;
+
+/**
+ * Renders issues as one readable line each
+ */
+export function formatIssues(issues: SchemaIssue[]): string {
+  return issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message,
+    )
+    .join("\n");
+}
+
+const describeType = (input: unknown) =>
+  input === null ? "null" : Array.isArray(input) ? "array" : typeof input;
+
+/**
+ * Wraps a check function into a schema
+ */
+function createSchema<T>(check: Check<T>): Schema<T> {
+  const safeParse = (_input: unknown): SchemaResult<T> => {
+    const issues: SchemaIssue[] = [];
+    const value = check(_input, [], issues);
+    return issues.length > 0
+      ? { success: false, issues }
+      : { success: true, value };
+  };
+
+  return {
+    parse: (_input) => {
+      const result = safeParse(_input);
+      if (!result.success) {
+        throw new SchemaValidationError(result.issues);
+      }
+      return result.value;
+    },
+    safeParse,
+    optional: () =>
+      createSchema((input, path, issues) =>
+        input === undefined ? undefined : check(input, path, issues),
+      ),
+    default: (_value) =>
+      createSchema((input, path, issues) =>
+        input === undefined ? _value : check(input, path, issues),
+      ),
+    refine: (_check) =>
+      createSchema((input, path, issues) => {
+        const issueCount = issues.length;
+        const value = check(input, path, issues);
+        if (issues.length === issueCount) {
+          const message = _check(value);
+          if (message) issues.push({ path, message });
+        }
+        return value;
+      }),
+  };
+}
+
+function string(options: StringSchemaOptions = {}): Schema<string> {
+  return createSchema((input, path, issues) => {
+    const value =
+      options.coerce &&
+      (typeof input === "number" || typeof input === "boolean")
+        ? String(input)
+        : input;
+
+    if (typeof value !== "string") {
+      issues.push({
+        path,
+        message: `Expected string, got ${describeType(input)}`,
+      });
+      return value as string;
+    }
+    if (options.min !== undefined && value.length < options.min) {
+      issues.push({
+        path,
+        message: `Expected at least ${options.min} characters`,
+      });
+    }
+    if (options.max !== undefined && value.length > options.max) {
+      issues.push({
+        path,
+        message: `Expected at most ${options.max} characters`,
+      });
+    }
+    if (options.pattern && !options.pattern.test(value)) {
+      issues.push({ path, message: `Expected to match ${options.pattern}` });
+    }
+    return value;
+  });
+}
+
+function number(options: NumberSchemaOptions = {}): Schema<number> {
+  return createSchema((input, path, issues) => {
+    const value =
+      options.coerce && typeof input === "string" && input.trim() !== ""
+        ? Number(input)
+        : input;
+
+    if (typeof value !== "number" || Number.isNaN(value)) {
+      issues.push({
+        path,
+        message: `Expected number, got ${describeType(input)}`,
+      });
+      return value as number;
+    }
+    if (options.integer && !Number.isInteger(value)) {
+      issues.push({ path, message: "Expected an integer" });
+    }
+    if (options.min !== undefined && value < options.min) {
+      issues.push({ path, message: `Expected at least ${options.min}` });
+    }
+    if (options.max !== undefined && value > options.max) {
+      issues.push({ path, message: `Expected at most ${options.max}` });
+    }
+    return value;
+  });
+}
+
+function boolean(): Schema<boolean> {
+  return createSchema((input, path, issues) => {
+    if (typeof input !== "boolean") {
+      issues.push({
+        path,
+        message: `Expected boolean, got ${describeType(input)}`,
+      });
+    }
+    return input as boolean;
+  });
+}
+
+function literal<const L extends string | number | boolean | null>(
+  value: L,
+): Schema<L> {
+  return createSchema((input, path, issues) => {
+    if (input !== value) {
+      issues.push({ path, message: `Expected ${JSON.stringify(value)}` });
+    }
+    return input as L;
+  });
+}
+
+function array<T>(
+  item: Schema<T>,
+  options: ArraySchemaOptions = {},
+): Schema<T[]> {
+  return createSchema((input, path, issues) => {
+    if (!Array.isArray(input)) {
+      issues.push({
+        path,
+        message: `Expected array, got ${describeType(input)}`,
+      });
+      return input as T[];
+    }
+    if (options.min !== undefined && input.length < options.min) {
+      issues.push({ path, message: `Expected at least ${options.min} items` });
+    }
+    if (options.max !== undefined && input.length > options.max) {
+      issues.push({ path, message: `Expected at most ${options.max} items` });
+    }
+
+    return input.map((element, index) => {
+      const result = item.safeParse(element);
+      if (result.success) return result.value;
+      issues.push(
+        ...result.issues.map((issue) => ({
+          ...issue,
+          path: [...path, index, ...issue.path],
+        })),
+      );
+      return element;
+    });
+  });
+}
+
+function object<const S extends ObjectShape>(shape: S): Schema<InferShape<S>> {
+  return createSchema((input, path, issues) => {
+    if (typeof input !== "object" || input === null || Array.isArray(input)) {
+      issues.push({
+        path,
+        message: `Expected object, got ${describeType(input)}`,
+      });
+      return input as InferShape<S>;
+    }
+
+    // Unknown keys are dropped
+    const output: Record<string, unknown> = {};
+    Object.entries(shape).forEach(([key, field]) => {
+      const result = field.safeParse((input as Record<string, unknown>)[key]);
+      if (!result.success) {
+        issues.push(
+          ...result.issues.map((issue) => ({
+            ...issue,
+            path: [...path, key, ...issue.path],
+          })),
+        );
+        return;
+      }
+      if (result.value !== undefined || Object.hasOwn(input, key)) {
+        output[key] = result.value;
+      }
+    });
+    return output as InferShape<S>;
+  });
+}
+
+function union<const S extends readonly Schema<any>[]>(
+  ...options: S
+): Schema<Infer<S[number]>> {
+  return createSchema((input, path, issues) => {
+    const failures: SchemaIssue[][] = [];
+    for (const option of options) {
+      const result = option.safeParse(input);
+      if (result.success) return result.value;
+      failures.push(result.issues);
+    }
+
+    // Report the option that got furthest, usually the intended one
+    const closest = failures.reduce(
+      (best, current) =>
+        current[0]?.path.length > best[0]?.path.length ? current : best,
+      failures[0] ?? [],
+    );
+    if (closest.some((issue) => issue.path.length > 0)) {
+      issues.push(
+        ...closest.map((issue) => ({
+          ...issue,
+          path: [...path, ...issue.path],
+        })),
+      );
+    } else {
+      issues.push({ path, message: "Input doesn't match any union option" });
+    }
+    return input as Infer<S[number]>;
+  });
+}
+
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return schema.optional();
+}
+
+/**
+ * Builds validators whose TypeScript type is inferred from their shape:
+ *
+ *   const user = schema.object({ name: schema.string(), age: schema.number().optional() });
+ *   type User = Infer<typeof user>; // { name: string; age?: number }
+ */
+export const schema = {
+  string,
+  number,
+  boolean,
+  literal,
+  array,
+  object,
+  union,
+  optional,
+};
+
+export interface ValidatedStateOptions<T> extends ReactiveStateOptions<T> {
+  /**
+   * What to do with a write that fails validation: "reject" throws a
+   * `StateWriteRejectedError`, "ignore" keeps the current value. Either way
+   * the issues are published through `errors`. (default: "reject")
+   */
+  onInvalid?: "reject" | "ignore";
+}
+
+export interface ValidatedState<T> extends ReactiveState<T> {
+  /** Issues of the most recent write; empty after a valid write */
+  errors: ReactiveState<SchemaIssue[]>;
+  isValid: ReactiveState<boolean>;
+  schema: Schema<T>;
+}
+
+/**
+ * Creates a reactive state whose writes are parsed by `schema`. Valid
+ * writes commit the parsed (and possibly coerced) value; invalid writes are
+ * rejected or ignored, and their issues become the value of `errors`.
+ */
+export function createValidatedState<T>(
+  stateSchema: Schema<T>,
+  initialValue: unknown,
+  options: ValidatedStateOptions<T> = {},
+): ValidatedState<T> {
+  const { onInvalid = "reject", middleware = [], ...stateOptions } = options;
+  const errors = createReactiveState<SchemaIssue[]>([]);
+
+  const state = createReactiveState(stateSchema.parse(initialValue), {
+    ...stateOptions,
+    middleware: [
+      (write, next) => {
+        const result = stateSchema.safeParse(write.value);
+        if (!result.success) {
+          errors.setValue(result.issues);
+          if (onInvalid === "reject") {
+            write.reject(formatIssues(result.issues));
+          }
+          return;
+        }
+
+        errors.setValue((prev) => (prev.length > 0 ? [] : prev));
+        next(result.value);
+      },
+      ...middleware,
+    ],
+  });
+
+  return {
+    ...state,
+    errors,
+    isValid: errors.derive((issues) => issues.length === 0),
+    schema: stateSchema,
+  };
+}
@@ -1,72 +1,476 @@
-export interface StateTransition<T extends string, E extends string> {
+import {
+  createReactiveState,
+  ReactiveState,
+  registerWithScope,
+} from "./reactive-state.js";
+import {
+  buildStateTree,
+  delayEvent,
+  doneEvent,
+  errorEvent,
+  getCurrentPath,
+  getEntrySet,
+  getExitSet,
+  getStateValue,
+  isDescendant,
+  resolveStateValue,
+  selectTransitions,
+  AssignAction,
+  Assigner,
+  HistoryRecord,
+  InvokedMachine,
+  Invocation,
+  MachineAction,
+  MachineConfig,
+  MachineEvent,
+  MachineSnapshot,
+  NoInferFrom,
+  PropertyAssigners,
+  StateNode,
+  StateNodeConfig,
+  StateValue,
+  Transition,
+  TransitionConfig,
+} from "./statechart.js";
+
+/**
+ * Payload type per event name, e.g. `{ SET: number; RESET: undefined }`
+ */
+export type EventPayloads<E extends string> = Record<E, unknown>;
+
+/**
+ * Send arguments for a payload type: optional when it accepts `undefined`
+ */
+type PayloadArgs<V> = undefined extends V ? [_payload?: V] : [_payload: V];
+
+export interface StateTransition<
+  T extends string,
+  E extends string,
+  C = any,
+  P extends EventPayloads<E> = Record<E, any>,
+> {
   from: T;
   to: T;
   event: E;
-  guard?: (_context: any) => boolean;
-  action?: (_context: any) => void;
+  guard?: (_context: C, _event: MachineEvent<P, E>) => boolean;
+  action?: MachineAction<C, P, E>;
 }
 
-export interface StateMachine<T extends string, E extends string, C = any> {
+export interface StateMachine<
+  T extends string,
+  E extends string,
+  C = any,
+  P extends EventPayloads<E> = Record<E, any>,
+> {
+  /**
+   * Dot path of the deepest active state, e.g. "checkout.payment". Inside
+   * parallel regions this is the parallel state; use `value` or `matches`
+   * to look further down.
+   */
   currentState: T;
+  /** Every active state, e.g. `{ checkout: "payment" }` */
+  value: StateValue;
+  /** The statechart definition; flat machines are converted to one */
+  config: MachineConfig<C>;
   context: C;
-  can: (_event: E) => boolean;
-  send: (_event: E, _payload?: any) => void;
+  /** Whether a top-level final state has been reached */
+  done: boolean;
+  /** Whether the state at `path` (e.g. "checkout.payment") is active */
+  matches: (_path: string) => boolean;
+  /** Whether `send` would trigger a transition; guards see `payload` */
+  can: <K extends E>(_event: K, ..._payload: PayloadArgs<P[K]>) => boolean;
+  send: <K extends E>(_event: K, ..._payload: PayloadArgs<P[K]>) => void;
   subscribe: (_callback: (_state: T, _context: C) => void) => () => void;
+  /**
+   * Receives errors thrown by guards and actions while the machine handles
+   * an event raised by an `after` timer or an invoked service. The machine
+   * stays where the error left it. Without listeners such errors are
+   * rethrown as uncaught exceptions.
+   */
+  onError: (_listener: (_error: unknown) => void) => () => void;
+  /** Starts over from the initial state and context */
   reset: () => void;
+  /**
+   * Cancels pending `after` timers and invoked services, including child
+   * machines, and ignores further events until `reset`
+   */
+  stop: () => void;
+  /** The active states, context and history, ready to be stored as JSON */
+  getSnapshot: () => MachineSnapshot<C>;
+  /**
+   * Continues from a snapshot, migrating it to the config's `version` first.
+   * Entry actions don't run again; timers and services of the restored
+   * states start over. Throws, leaving the machine as it was, when the
+   * snapshot names a state the definition no longer has.
+   */
+  restore: (_snapshot: MachineSnapshot<C>) => void;
+}
+
+/**
+ * Creates an action that replaces the context with a copy carrying the
+ * given updates, computed from the context and event:
+ *
+ *   assign((context, event) => ({ count: context.count + event.payload }))
+ *   assign({ count: (context) => context.count + 1, error: undefined })
+ *
+ * Property functions all see the context from before the update.
+ */
+export function assign<
+  C,
+  P extends object = Record<string, any>,
+  K extends keyof P = keyof P,
+>(
+  // Inferred from where the action is used rather than from `assignment`
+  assignment:
+    | Assigner<NoInferFrom<C>, NoInferFrom<P>, NoInferFrom<K>>
+    | PropertyAssigners<NoInferFrom<C>, NoInferFrom<P>, NoInferFrom<K>>,
+): AssignAction<C, P, K> {
+  return { type: "assign", assignment };
+}
+
+function isInvokedMachine(value: unknown): value is InvokedMachine {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as InvokedMachine).subscribe === "function" &&
+    typeof (value as InvokedMachine).stop === "function"
+  );
+}
+
+function applyAssign<C>(
+  context: C,
+  action: AssignAction<C>,
+  event: MachineEvent,
+): C {
+  const { assignment } = action;
+  const updates =
+    typeof assignment === "function"
+      ? assignment(context, event)
+      : Object.fromEntries(
+          Object.entries(assignment).map(([key, value]) => [
+            key,
+            typeof value === "function" ? value(context, event) : value,
+          ]),
+        );
+  return { ...context, ...updates };
 }
 
 /**
- * Creates a state machine with automatic state transitions and guards
+ * Turns the flat `(initialState, context, transitions)` form into a config
  */
-export function createStateMachine<T extends string, E extends string, C = any>(
+function toMachineConfig<
+  T extends string,
+  E extends string,
+  C,
+  P extends EventPayloads<E>,
+>(
   initialState: T,
   initialContext: C,
-  transitions: StateTransition<T, E>[],
+  transitions: StateTransition<T, E, C, P>[],
+): MachineConfig<C> {
+  const states: Record<string, StateNodeConfig<C>> = {};
+  const getState = (key: T) => (states[key] ??= { on: {} });
+
+  getState(initialState);
+  transitions.forEach((transition) => {
+    getState(transition.to);
+    const on = getState(transition.from).on as Record<
+      string,
+      TransitionConfig<C>[]
+    >;
+    (on[transition.event] ??= []).push({
+      target: `#${transition.to}`,
+      guard: transition.guard as TransitionConfig<C>["guard"],
+      actions: transition.action as MachineAction<C>,
+    });
+  });
+
+  return { initial: initialState, context: initialContext, states };
+}
+
+/**
+ * Creates a state machine with automatic state transitions and guards.
+ *
+ * Pass either a statechart config, with nested compound states, parallel
+ * regions, history states and entry/exit actions:
+ *
+ *   createStateMachine({ initial: "idle", states: { idle: { on: { START: "loading" } }, loading: {} } })
+ *
+ * or a flat initial state, context and list of transitions. Events are
+ * handled by the deepest active state that has an enabled transition for
+ * them, falling back to its ancestors. `P` types each event's payload.
+ */
+export function createStateMachine<
+  T extends string,
+  E extends string,
+  C = any,
+  P extends EventPayloads<E> = Record<E, any>,
+>(
+  initialState: T | MachineConfig<C, NoInferFrom<P>>,
+  initialContext?: C,
+  transitions: StateTransition<T, E, C, P>[] = [],
   onStateChange?: (from: T, to: T, context: C) => void,
-): StateMachine<T, E, C> {
-  let currentState = initialState;
-  let context = initialContext;
+): StateMachine<T, E, C, P> {
+  // Guards and actions are typed per event at the edges; inside, any event goes
+  const config =
+    typeof initialState === "object"
+      ? (initialState as MachineConfig<C>)
+      : toMachineConfig(initialState, initialContext as C, transitions);
+  const tree = buildStateTree(config);
+  const startContext = config.context as C;
+
+  let context = startContext;
+  let configuration = new Set<StateNode<C>>();
+  let history: HistoryRecord<C> = new Map();
   const subscribers = new Set<(state: T, context: C) => void>();
+  const errorListeners = new Set<(_error: unknown) => void>();
+  // Cleanups of timers and invoked services, per active state
+  const activities = new Map<StateNode<C>, (() => void)[]>();
+  const queue: MachineEvent[] = [];
+  let processing = false;
+  let stopped = false;
 
-  const can = (_event: E): boolean => {
-    return transitions.some(
-      (t) =>
-        t.from === currentState &&
-        t.event === _event &&
-        (!t.guard || t.guard(context)),
-    );
+  const getCurrentState = () => getCurrentPath(tree.root, configuration) as T;
+
+  const runActions = (actions: MachineAction<C>[], event: MachineEvent) => {
+    actions.forEach((action) => {
+      if (typeof action === "function") {
+        action(context, event);
+      } else {
+        context = applyAssign(context, action, event);
+      }
+    });
   };
 
-  const send = (_event: E, _payload?: any) => {
-    const transition = transitions.find(
-      (t) => t.from === currentState && t.event === _event,
-    );
+  const recordHistory = (exiting: StateNode<C>[]) => {
+    exiting.forEach((state) => {
+      state.children
+        .filter((child) => child.type === "history")
+        .forEach((historyState) => {
+          history.set(
+            historyState.id,
+            historyState.history === "deep"
+              ? [...configuration].filter(
+                  (node) =>
+                    node.children.length === 0 && isDescendant(node, state),
+                )
+              : state.children.filter((child) => configuration.has(child)),
+          );
+        });
+    });
+  };
 
-    if (!transition) {
-      throw new Error(
-        `Cannot send event '${_event}' from state '${currentState}'`,
-      );
+  /**
+   * Processes an event raised by a timer or service. Nobody up the stack can
+   * catch what its guards and actions throw, so it goes to `onError`.
+   */
+  const dispatchInternal = (event: MachineEvent) => {
+    try {
+      dispatch(event);
+    } catch (error) {
+      if (errorListeners.size === 0) {
+        queueMicrotask(() => {
+          throw error;
+        });
+      }
+      errorListeners.forEach((listener) => listener(error));
     }
+  };
 
-    if (transition.guard && !transition.guard(context)) {
-      throw new Error(
-        `Guard failed for event '${_event}' from state '${currentState}'`,
+  const startActivities = (state: StateNode<C>, event: MachineEvent) => {
+    const cleanups = state.delays.map((delay) => {
+      const timer = setTimeout(
+        () =>
+          dispatchInternal({
+            type: delayEvent(state.id, delay),
+            payload: undefined,
+          }),
+        delay,
       );
+      return () => clearTimeout(timer);
+    });
+    state.invocations.forEach((invocation) => {
+      cleanups.push(invoke(invocation, event));
+    });
+    activities.set(state, cleanups);
+  };
+
+  const stopActivities = (state: StateNode<C>) => {
+    activities.get(state)?.forEach((cleanup) => cleanup());
+    activities.delete(state);
+  };
+
+  /**
+   * Runs an invoked service and returns a function that cancels it
+   */
+  const invoke = (invocation: Invocation<C>, event: MachineEvent) => {
+    const controller = new AbortController();
+    let cleanup: (() => void) | undefined;
+    const sendBack = (type: string, payload?: unknown) => {
+      if (!controller.signal.aborted) dispatchInternal({ type, payload });
+    };
+
+    try {
+      const result = invocation.src(context, event, {
+        send: sendBack,
+        signal: controller.signal,
+      });
+
+      if (isInvokedMachine(result)) {
+        const checkDone = () => {
+          if (result.done) sendBack(doneEvent(invocation.id), result.context);
+        };
+        const unsubscribe = result.subscribe(checkDone);
+        cleanup = () => {
+          unsubscribe();
+          result.stop();
+        };
+        checkDone();
+      } else if (typeof result === "function") {
+        cleanup = result;
+      } else if (result && typeof result.then === "function") {
+        result.then(
+          (data) => sendBack(doneEvent(invocation.id), data),
+          (error) => sendBack(errorEvent(invocation.id), error),
+        );
+      }
+    } catch (error) {
+      sendBack(errorEvent(invocation.id), error);
     }
 
-    const fromState = currentState;
-    currentState = transition.to;
+    return () => {
+      controller.abort();
+      cleanup?.();
+    };
+  };
+
+  const enterStates = (entering: StateNode<C>[], event: MachineEvent) => {
+    entering.forEach((state) => {
+      configuration.add(state);
+      runActions(state.entry, event);
+    });
+    // Services start once the whole step is done, and only if still needed
+    entering.forEach((state) => {
+      if (configuration.has(state)) startActivities(state, event);
+    });
+  };
+
+  const microstep = (selected: Transition<C>[], event: MachineEvent) => {
+    const exiting = [
+      ...new Set(selected.flatMap((t) => getExitSet(t, configuration))),
+    ].sort((a, b) => b.order - a.order);
+
+    recordHistory(exiting);
+    exiting.forEach((state) => {
+      stopActivities(state);
+      runActions(state.exit, event);
+      configuration.delete(state);
+    });
+    selected.forEach((transition) => runActions(transition.actions, event));
+    enterStates(getEntrySet(selected, history), event);
+  };
+
+  const start = () => {
+    const event: MachineEvent = { type: "machine.init", payload: undefined };
+    const { root } = tree;
+    const initialTransition: Transition<C> = {
+      event: event.type,
+      source: root,
+      targets: root.initial
+        ? [root.initial]
+        : root.children.filter((child) => child.type !== "history"),
+      actions: [],
+      internal: true,
+    };
+
+    stopped = false;
+    context = startContext;
+    configuration = new Set();
+    history = new Map();
+    enterStates([root, ...getEntrySet([initialTransition], history)], event);
+  };
+
+  const stop = () => {
+    stopped = true;
+    [...activities.keys()].forEach(stopActivities);
+  };
+
+  const notify = () => {
+    const state = getCurrentState();
+    subscribers.forEach((callback) => callback(state, context));
+  };
+
+  /**
+   * Takes the transitions for one event. Unhandled events throw when
+   * `strict`, which is how `send` reports them; internal events and events
+   * queued while another one is processed are dropped instead.
+   */
+  const step = (event: MachineEvent, strict: boolean) => {
+    const { selected, blockedByGuard } = selectTransitions(
+      configuration,
+      event,
+      context,
+    );
 
-    if (transition.action) {
-      transition.action(context);
+    if (selected.length === 0) {
+      if (!strict) return;
+      throw new Error(
+        blockedByGuard
+          ? `Guard failed for event '${event.type}' from state '${getCurrentState()}'`
+          : `Cannot send event '${event.type}' from state '${getCurrentState()}'`,
+      );
     }
 
+    const fromState = getCurrentState();
+    microstep(selected, event);
+
     if (onStateChange) {
-      onStateChange(fromState, currentState, context);
+      onStateChange(fromState, getCurrentState(), context);
     }
 
     // Notify subscribers
-    subscribers.forEach((callback) => callback(currentState, context));
+    notify();
+  };
+
+  /**
+   * Runs `work`, then the events queued while it ran
+   */
+  const runToCompletion = (work: () => void) => {
+    processing = true;
+    try {
+      work();
+      while (queue.length > 0 && !stopped) {
+        step(queue.shift() as MachineEvent, false);
+      }
+    } finally {
+      processing = false;
+      queue.length = 0;
+    }
+  };
+
+  /**
+   * Processes an event, or queues it when sent from inside an action,
+   * subscriber or service while another event is being processed
+   */
+  const dispatch = (event: MachineEvent, strict = false) => {
+    if (stopped) return;
+    if (processing) {
+      queue.push(event);
+      return;
+    }
+    runToCompletion(() => step(event, strict));
+  };
+
+  const can = <K extends E>(
+    _event: K,
+    ..._payload: PayloadArgs<P[K]>
+  ): boolean => {
+    const event: MachineEvent = { type: _event, payload: _payload[0] };
+    return selectTransitions(configuration, event, context).selected.length > 0;
+  };
+
+  const send = <K extends E>(_event: K, ..._payload: PayloadArgs<P[K]>) => {
+    dispatch({ type: _event, payload: _payload[0] }, true);
   };
 
   const subscribe = (_callback: (_state: T, _context: C) => void) => {
@@ -74,23 +478,241 @@ export function createStateMachine<T extends string, E extends string, C = any>(
     return () => subscribers.delete(_callback);
   };
 
+  const onError = (_listener: (_error: unknown) => void) => {
+    errorListeners.add(_listener);
+    return () => errorListeners.delete(_listener);
+  };
+
   const reset = () => {
-    currentState = initialState;
-    context = initialContext;
-    subscribers.forEach((callback) => callback(currentState, context));
+    stop();
+    runToCompletion(start);
+    notify();
+  };
+
+  const getSnapshot = (): MachineSnapshot<C> => ({
+    version: config.version ?? 0,
+    value: getStateValue(tree.root, configuration),
+    context,
+    history: Object.fromEntries(
+      [...history].map(([id, states]) => [
+        id,
+        states.map((state) => state.path.join(".")),
+      ]),
+    ),
+  });
+
+  const restore = (_snapshot: MachineSnapshot<C>) => {
+    const { version = 0, migrations = {} } = config;
+    const snapshotVersion = _snapshot.version ?? 0;
+
+    if (snapshotVersion > version) {
+      throw new Error(
+        `Snapshot has version ${snapshotVersion}, newer than ${version}`,
+      );
+    }
+
+    let snapshot = _snapshot;
+    for (let next = snapshotVersion + 1; next <= version; next++) {
+      if (migrations[next]) {
+        snapshot = migrations[next](snapshot);
+      }
+    }
+
+    const restoredStates = resolveStateValue(tree, snapshot.value);
+    // Recorded states that were since removed are forgotten
+    const restoredHistory: HistoryRecord<C> = new Map();
+    Object.entries(snapshot.history ?? {}).forEach(([id, paths]) => {
+      const states = paths.map((path) => tree.getByPath(path));
+      if (tree.getById(id) && states.every((state) => state !== undefined)) {
+        restoredHistory.set(id, states as StateNode<C>[]);
+      }
+    });
+
+    stop();
+    stopped = false;
+    context = snapshot.context;
+    configuration = new Set(restoredStates);
+    history = restoredHistory;
+
+    const event: MachineEvent = { type: "machine.restore", payload: snapshot };
+    runToCompletion(() =>
+      restoredStates.forEach((state) => startActivities(state, event)),
+    );
+    notify();
   };
 
+  runToCompletion(start);
+
   return {
     get currentState() {
-      return currentState;
+      return getCurrentState();
+    },
+    get value() {
+      return getStateValue(tree.root, configuration);
     },
+    config,
     get context() {
       return context;
     },
+    get done() {
+      return tree.root.children.some(
+        (child) => child.type === "final" && configuration.has(child),
+      );
+    },
+    matches: (_path) => {
+      const state = tree.getByPath(_path);
+      return state !== undefined && configuration.has(state);
+    },
     can,
     send,
     subscribe,
+    onError,
     reset,
+    stop,
+    getSnapshot,
+    restore,
+  };
+}
+
+/**
+ * Where `persistMachine` keeps snapshots. A `ReactiveBackendBinding` of
+ * `MachineSnapshot | null` fits, which lets a machine move between devices.
+ */
+export interface MachineSnapshotStore<C> {
+  get: () => MachineSnapshot<C> | null | undefined;
+  set: (_snapshot: MachineSnapshot<C>) => unknown;
+  subscribe: (
+    _callback: (_snapshot: MachineSnapshot<C> | null | undefined) => void,
+  ) => () => void;
+}
+
+/**
+ * Resumes a machine from the snapshot in `store` and writes a new snapshot
+ * after every transition. Snapshots arriving later, e.g. from another
+ * device, are restored too. Snapshots that can't be restored are passed to
+ * `onError` and leave the machine as it is. Returns a function that stops
+ * persisting.
+ */
+export function persistMachine<C>(
+  machine: StateMachine<string, string, C, any>,
+  store: MachineSnapshotStore<C>,
+  options: { onError?: (_error: unknown) => void } = {},
+): () => void {
+  const { onError = () => {} } = options;
+  // The last snapshot read or written, so neither side echoes the other
+  let lastSynced = JSON.stringify(machine.getSnapshot());
+
+  const apply = (snapshot: MachineSnapshot<C> | null | undefined) => {
+    if (!snapshot || JSON.stringify(snapshot) === lastSynced) return;
+    try {
+      lastSynced = JSON.stringify(snapshot);
+      machine.restore(snapshot);
+      lastSynced = JSON.stringify(machine.getSnapshot());
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  apply(store.get());
+  const unsubscribeStore = store.subscribe(apply);
+  const unsubscribeMachine = machine.subscribe(() => {
+    const snapshot = machine.getSnapshot();
+    const serialized = JSON.stringify(snapshot);
+    if (serialized === lastSynced) return;
+
+    lastSynced = serialized;
+    try {
+      const written = store.set(snapshot);
+      if (written instanceof Promise) written.catch(onError);
+    } catch (error) {
+      onError(error);
+    }
+  });
+
+  const dispose = () => {
+    unregister();
+    unsubscribeStore();
+    unsubscribeMachine();
+  };
+  const unregister = registerWithScope(dispose);
+
+  return dispose;
+}
+
+/**
+ * A machine's state as reactive states, for use in `derive`, selectors,
+ * computeds and effects
+ */
+export interface ReactiveMachine<T extends string, C> {
+  /** Follows `machine.currentState` */
+  state: ReactiveState<T>;
+  value: ReactiveState<StateValue>;
+  context: ReactiveState<C>;
+  done: ReactiveState<boolean>;
+  /** Whether the state at `path` is active; one state is kept per path */
+  matches: (_path: string) => ReactiveState<boolean>;
+  /** Stops following the machine; the states keep their last values */
+  dispose: () => void;
+}
+
+interface MachineStatus<T, C> {
+  state: T;
+  value: StateValue;
+  context: C;
+  done: boolean;
+}
+
+/**
+ * Mirrors a machine into the reactive graph. Every transition is one write
+ * to a state named `name` (default: the config's `id`, or "state-machine"),
+ * so middleware and devtools see it like any other state.
+ */
+export function createReactiveMachine<
+  T extends string,
+  E extends string,
+  C,
+  P extends EventPayloads<E>,
+>(
+  machine: StateMachine<T, E, C, P>,
+  options: { name?: string } = {},
+): ReactiveMachine<T, C> {
+  const { name = machine.config.id ?? "state-machine" } = options;
+  const read = (): MachineStatus<T, C> => ({
+    state: machine.currentState,
+    value: machine.value,
+    context: machine.context,
+    done: machine.done,
+  });
+
+  const status = createReactiveState(read(), { name });
+  const matchers = new Map<string, ReactiveState<boolean>>();
+
+  const matches = (_path: string) => {
+    let matcher = matchers.get(_path);
+    if (!matcher) {
+      // Recomputed on every transition, but only changes when `_path` does
+      matcher = status.derive(() => machine.matches(_path));
+      matchers.set(_path, matcher);
+    }
+    return matcher;
+  };
+
+  const unsubscribe = machine.subscribe(() => status.setValue(read()));
+
+  const dispose = () => {
+    unregister();
+    unsubscribe();
+  };
+
+  const unregister = registerWithScope(dispose);
+
+  return {
+    state: status.derive((s) => s.state),
+    value: status.derive((s) => s.value, { equals: "structural" }),
+    context: status.derive((s) => s.context),
+    done: status.derive((s) => s.done),
+    matches,
+    dispose,
   };
 }
 
@@ -108,19 +730,55 @@ export function createToggleMachine(initialState: boolean = false) {
   );
 }
 
+export interface LoadingContext<T> {
+  data?: T;
+  error?: unknown;
+}
+
 /**
- * Creates a loading state machine
+ * Creates a loading state machine. Given a `load` function it is invoked
+ * on entering "loading" and its result moves the machine to "success" or
+ * "error"; without one, send "complete" and "error" yourself. Either way the
+ * payload ends up in `context.data` or `context.error`.
  */
-export function createLoadingMachine() {
+export function createLoadingMachine<T = any>(
+  load?: (
+    _context: LoadingContext<T>,
+    _helpers: { signal: AbortSignal },
+  ) => PromiseLike<T>,
+) {
+  const storeData = assign<LoadingContext<T>>((_context, event) => ({
+    data: event.payload,
+    error: undefined,
+  }));
+  const storeError = assign<LoadingContext<T>>((_context, event) => ({
+    error: event.payload,
+  }));
+
   return createStateMachine<
     "idle" | "loading" | "success" | "error",
     "start" | "complete" | "error",
-    any
-  >("idle", {}, [
-    { from: "idle", to: "loading", event: "start" },
-    { from: "loading", to: "success", event: "complete" },
-    { from: "loading", to: "error", event: "error" },
-    { from: "success", to: "idle", event: "start" },
-    { from: "error", to: "idle", event: "start" },
-  ]);
+    LoadingContext<T>,
+    { start: undefined; complete: T | undefined; error: unknown }
+  >({
+    initial: "idle",
+    context: {},
+    states: {
+      idle: { on: { start: "loading" } },
+      loading: {
+        on: {
+          complete: { target: "success", actions: storeData },
+          error: { target: "error", actions: storeError },
+        },
+        invoke: load && {
+          src: (context, _event, { signal }) => load(context, { signal }),
+          onDone: { target: "success", actions: storeData },
+          onError: { target: "error", actions: storeError },
+        },
+      },
+      // Without a loader, "start" only resets to idle as it always has
+      success: { on: { start: load ? "loading" : "idle" } },
+      error: { on: { start: load ? "loading" : "idle" } },
+    },
+  });
 }
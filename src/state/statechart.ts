@@ -0,0 +1,721 @@
+/**
+ * A machine's state: the key of the active child of a compound state, or an
+ * object when the active child has active children of its own, e.g.
+ * `"idle"`, `{ checkout: "payment" }` or `{ editor: { bold: "on", italic: "off" } }`
+ */
+export type StateValue = string | { [key: string]: StateValue };
+
+/**
+ * `T`, without letting TypeScript infer type parameters from it
+ */
+export type NoInferFrom<T> = [T][T extends any ? 0 : never];
+
+/**
+ * Default payload map: any event name with any payload
+ */
+export type AnyEventPayloads = Record<string, any>;
+
+/**
+ * An event with its payload. `P` maps event names to payload types, so
+ * `MachineEvent<{ SET: number; RESET: undefined }>` is
+ * `{ type: "SET"; payload: number } | { type: "RESET"; payload: undefined }`.
+ */
+export type MachineEvent<
+  P extends object = AnyEventPayloads,
+  K extends keyof P = keyof P,
+> = { [Key in K]: { type: Key & string; payload: P[Key] } }[K];
+
+/**
+ * Computes context updates from the context and event
+ */
+export type Assigner<C, P extends object, K extends keyof P> = (
+  _context: C,
+  _event: MachineEvent<P, K>,
+) => Partial<C>;
+
+/**
+ * Per-property updates: plain values or functions computing them
+ */
+export type PropertyAssigners<C, P extends object, K extends keyof P> = {
+  [Key in keyof C]?:
+    | C[Key]
+    | ((_context: C, _event: MachineEvent<P, K>) => C[Key]);
+};
+
+/**
+ * An action that replaces the context with an updated copy, created by `assign`
+ */
+export interface AssignAction<
+  C,
+  P extends object = AnyEventPayloads,
+  K extends keyof P = keyof P,
+> {
+  type: "assign";
+  assignment: Assigner<C, P, K> | PropertyAssigners<C, P, K>;
+}
+
+export type MachineAction<
+  C,
+  P extends object = AnyEventPayloads,
+  K extends keyof P = keyof P,
+> = ((_context: C, _event: MachineEvent<P, K>) => void) | AssignAction<C, P, K>;
+
+export type MachineGuard<
+  C,
+  P extends object = AnyEventPayloads,
+  K extends keyof P = keyof P,
+> = (_context: C, _event: MachineEvent<P, K>) => boolean;
+
+export interface TransitionConfig<
+  C,
+  P extends object = AnyEventPayloads,
+  K extends keyof P = keyof P,
+> {
+  /**
+   * Where to go. Plain keys name sibling states ("loading", "form.review"),
+   * a leading dot names a child of the source (".details") and `#id` names
+   * any state by id; ids default to the state's dot path.
+   */
+  target?: string | string[];
+  guard?: MachineGuard<C, P, K>;
+  actions?: MachineAction<C, P, K> | MachineAction<C, P, K>[];
+  /** Stay in the source state when targeting one of its descendants */
+  internal?: boolean;
+}
+
+/**
+ * A target, a transition, or several transitions tried in order
+ */
+export type TransitionDefinition<
+  C,
+  P extends object = AnyEventPayloads,
+  K extends keyof P = keyof P,
+> = string | TransitionConfig<C, P, K> | (string | TransitionConfig<C, P, K>)[];
+
+/**
+ * Transitions per event; guards and actions see that event's payload type
+ */
+export type TransitionsConfig<C, P extends object = AnyEventPayloads> = {
+  [K in keyof P]?: TransitionDefinition<C, P, K>;
+};
+
+/**
+ * The parts of a machine an invocation needs to run and cancel it as a child
+ */
+export interface InvokedMachine {
+  done: boolean;
+  context: unknown;
+  subscribe: (_callback: (_state: any, _context: any) => void) => () => void;
+  stop: () => void;
+}
+
+export interface InvokeHelpers {
+  /** Sends an event to the invoking machine; ignored once the state exits */
+  send: (_event: string, _payload?: unknown) => void;
+  /** Aborted when the invoking state exits */
+  signal: AbortSignal;
+}
+
+/**
+ * Starts a service when its state is entered. Return a promise to get
+ * `onDone`/`onError` transitions, a child machine to get `onDone` when it
+ * reaches a final state, or a cleanup function for callback-style services.
+ */
+export type InvokeSource<C, P extends object = AnyEventPayloads> = (
+  _context: C,
+  _event: MachineEvent<P>,
+  _helpers: InvokeHelpers,
+) => PromiseLike<unknown> | InvokedMachine | (() => void) | void;
+
+export interface InvokeConfig<C, P extends object = AnyEventPayloads> {
+  /** Names the done/error events (default: derived from the state id) */
+  id?: string;
+  src: InvokeSource<C, P>;
+  /** Taken with the resolved value (or the child's context) as payload */
+  onDone?: TransitionDefinition<C>;
+  /** Taken with the rejection reason as payload */
+  onError?: TransitionDefinition<C>;
+}
+
+export interface Invocation<C> {
+  id: string;
+  src: InvokeSource<C>;
+}
+
+export type StateNodeType =
+  | "atomic"
+  | "compound"
+  | "parallel"
+  | "final"
+  | "history";
+
+export interface StateNodeConfig<C, P extends object = AnyEventPayloads> {
+  /** Inferred as "compound" when `states` is given, otherwise "atomic" */
+  type?: StateNodeType;
+  id?: string;
+  /** Child entered by default (default: the first child) */
+  initial?: string;
+  states?: Record<string, StateNodeConfig<C, P>>;
+  on?: TransitionsConfig<C, P>;
+  /** Transitions taken after staying in this state for a number of ms */
+  after?: Record<number, TransitionDefinition<C>>;
+  invoke?: InvokeConfig<C, P> | InvokeConfig<C, P>[];
+  entry?: MachineAction<C, P> | MachineAction<C, P>[];
+  exit?: MachineAction<C, P> | MachineAction<C, P>[];
+  /** For history states: remember only the direct child or the whole subtree */
+  history?: "shallow" | "deep";
+  /** For history states: where to go when nothing has been recorded yet */
+  target?: string;
+}
+
+export interface MachineConfig<C, P extends object = AnyEventPayloads>
+  extends StateNodeConfig<C, P> {
+  context?: C;
+  /** Schema version written into snapshots */
+  version?: number;
+  /**
+   * Upgrades snapshots one version at a time. `migrations[2]` receives a
+   * snapshot taken at version 1 and returns it in the version 2 shape.
+   */
+  migrations?: Record<
+    number,
+    (_snapshot: MachineSnapshot<any>) => MachineSnapshot<any>
+  >;
+}
+
+/**
+ * Serializable state of a running machine, from `getSnapshot`
+ */
+export interface MachineSnapshot<C = any> {
+  version: number;
+  value: StateValue;
+  context: C;
+  /** Dot paths of the states each history state recorded, by its id */
+  history: Record<string, string[]>;
+}
+
+export interface StateNode<C> {
+  key: string;
+  id: string;
+  /** Keys from the root, e.g. `["checkout", "payment"]` */
+  path: string[];
+  type: StateNodeType;
+  parent: StateNode<C> | null;
+  children: StateNode<C>[];
+  initial: StateNode<C> | null;
+  transitions: Transition<C>[];
+  entry: MachineAction<C>[];
+  exit: MachineAction<C>[];
+  /** Delays of `after` transitions, in ms */
+  delays: number[];
+  invocations: Invocation<C>[];
+  history: "shallow" | "deep";
+  /** Default targets of a history state */
+  historyTargets: StateNode<C>[];
+  /** Position in document order; ancestors come before descendants */
+  order: number;
+  config: StateNodeConfig<C>;
+}
+
+export interface Transition<C> {
+  event: string;
+  source: StateNode<C>;
+  /** Empty for targetless transitions, which only run their actions */
+  targets: StateNode<C>[];
+  guard?: MachineGuard<C>;
+  actions: MachineAction<C>[];
+  internal: boolean;
+}
+
+export interface StateTree<C> {
+  root: StateNode<C>;
+  /** Every state in document order */
+  nodes: StateNode<C>[];
+  getById: (_id: string) => StateNode<C> | undefined;
+  /** Looks a state up by its dot path, e.g. "checkout.payment" */
+  getByPath: (_path: string) => StateNode<C> | undefined;
+}
+
+/**
+ * Recorded history: the states to restore, keyed by history state id
+ */
+export type HistoryRecord<C> = Map<string, StateNode<C>[]>;
+
+const toArray = <V>(value: V | V[] | undefined): V[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const pathToString = (path: string[]) => path.join(".");
+
+/** Event sent when a state's `after` delay elapses */
+export const delayEvent = (stateId: string, delay: number) =>
+  `after.${delay}.${stateId}`;
+
+/** Event sent when an invoked service completes */
+export const doneEvent = (invocationId: string) =>
+  `done.invoke.${invocationId}`;
+
+/** Event sent when an invoked service fails */
+export const errorEvent = (invocationId: string) =>
+  `error.invoke.${invocationId}`;
+
+/**
+ * Parses a machine config into a tree of state nodes and resolves every
+ * transition target, so mistakes surface when the machine is created
+ */
+export function buildStateTree<C>(config: MachineConfig<C>): StateTree<C> {
+  const nodes: StateNode<C>[] = [];
+  const byId = new Map<string, StateNode<C>>();
+  const byPath = new Map<string, StateNode<C>>();
+
+  const createNode = (
+    key: string,
+    nodeConfig: StateNodeConfig<C>,
+    parent: StateNode<C> | null,
+  ): StateNode<C> => {
+    const path = parent ? [...parent.path, key] : [];
+    const childEntries = Object.entries(nodeConfig.states ?? {});
+    const node: StateNode<C> = {
+      key,
+      id: nodeConfig.id ?? (parent ? pathToString(path) : "(machine)"),
+      path,
+      type:
+        nodeConfig.type ?? (childEntries.length > 0 ? "compound" : "atomic"),
+      parent,
+      children: [],
+      initial: null,
+      transitions: [],
+      entry: toArray(nodeConfig.entry),
+      exit: toArray(nodeConfig.exit),
+      delays: [],
+      invocations: [],
+      history: nodeConfig.history ?? "shallow",
+      historyTargets: [],
+      order: nodes.length,
+      config: nodeConfig,
+    };
+
+    if (byId.has(node.id)) {
+      throw new Error(`Duplicate state id '${node.id}'`);
+    }
+    nodes.push(node);
+    byId.set(node.id, node);
+    byPath.set(pathToString(path), node);
+
+    node.children = childEntries.map(([childKey, childConfig]) =>
+      createNode(childKey, childConfig, node),
+    );
+
+    if (node.type === "compound") {
+      const initialKey = nodeConfig.initial ?? node.children[0]?.key;
+      const initial = node.children.find((child) => child.key === initialKey);
+      if (!initial || initial.type === "history") {
+        throw new Error(
+          `Invalid initial state '${initialKey}' in state '${node.id}'`,
+        );
+      }
+      node.initial = initial;
+    }
+
+    return node;
+  };
+
+  const root = createNode("", config, null);
+  if (root.type !== "compound" && root.type !== "parallel") {
+    throw new Error("A state machine needs at least one state");
+  }
+
+  const getById = (_id: string) => byId.get(_id);
+  const getByPath = (_path: string) =>
+    _path === "" ? undefined : byPath.get(_path);
+
+  /**
+   * Finds the state a target string refers to, as seen from `source`
+   */
+  const resolveTarget = (source: StateNode<C>, target: string) => {
+    let resolved: StateNode<C> | undefined;
+
+    if (target.startsWith("#")) {
+      const reference = target.slice(1);
+      resolved = byId.get(reference);
+      // "#id.child" addresses a descendant of a state with a custom id
+      const [idPart, ...rest] = reference.split(".");
+      if (!resolved && byId.has(idPart)) {
+        resolved = descend(byId.get(idPart), rest);
+      }
+    } else if (target.startsWith(".")) {
+      resolved = descend(source, target.slice(1).split("."));
+    } else {
+      resolved = descend(source.parent ?? source, target.split("."));
+    }
+
+    if (!resolved) {
+      throw new Error(
+        `Unknown target state '${target}' in transition from '${source.id}'`,
+      );
+    }
+    return resolved;
+  };
+
+  const addTransitions = (
+    node: StateNode<C>,
+    event: string,
+    definitions: TransitionDefinition<C> | undefined,
+  ) => {
+    toArray(definitions).forEach((definition) => {
+      const transitionConfig: TransitionConfig<C> =
+        typeof definition === "string" ? { target: definition } : definition;
+      node.transitions.push({
+        event,
+        source: node,
+        targets: toArray(transitionConfig.target).map((target) =>
+          resolveTarget(node, target),
+        ),
+        guard: transitionConfig.guard,
+        actions: toArray(transitionConfig.actions),
+        internal: transitionConfig.internal ?? false,
+      });
+    });
+  };
+
+  nodes.forEach((node) => {
+    Object.entries(node.config.on ?? {}).forEach(([event, definitions]) => {
+      addTransitions(node, event, definitions);
+    });
+
+    Object.entries(node.config.after ?? {}).forEach(([delay, definitions]) => {
+      node.delays.push(Number(delay));
+      addTransitions(node, delayEvent(node.id, Number(delay)), definitions);
+    });
+
+    toArray(node.config.invoke).forEach((invokeConfig, index) => {
+      const id = invokeConfig.id ?? `${node.id}:invocation[${index}]`;
+      node.invocations.push({ id, src: invokeConfig.src });
+      addTransitions(node, doneEvent(id), invokeConfig.onDone);
+      addTransitions(node, errorEvent(id), invokeConfig.onError);
+    });
+
+    if (node.type === "history") {
+      const parent = node.parent as StateNode<C>;
+      node.historyTargets = node.config.target
+        ? [resolveTarget(node, node.config.target)]
+        : parent.type === "parallel"
+          ? parent.children.filter((child) => child.type !== "history")
+          : [parent.initial as StateNode<C>];
+    }
+  });
+
+  return { root, nodes, getById, getByPath };
+}
+
+function descend<C>(
+  node: StateNode<C> | undefined,
+  keys: string[],
+): StateNode<C> | undefined {
+  return keys.reduce<StateNode<C> | undefined>(
+    (current, key) =>
+      key === "" ? current : current?.children.find((c) => c.key === key),
+    node,
+  );
+}
+
+/**
+ * Whether `node` is a strict descendant of `ancestor`
+ */
+export function isDescendant<C>(
+  node: StateNode<C>,
+  ancestor: StateNode<C>,
+): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (current === ancestor) return true;
+  }
+  return false;
+}
+
+/**
+ * Ancestors of `node` from its parent upwards, stopping below `upTo`
+ */
+function getProperAncestors<C>(
+  node: StateNode<C>,
+  upTo: StateNode<C> | null,
+): StateNode<C>[] {
+  const ancestors: StateNode<C>[] = [];
+  for (
+    let current = node.parent;
+    current && current !== upTo;
+    current = current.parent
+  ) {
+    ancestors.push(current);
+  }
+  return ancestors;
+}
+
+const byDocumentOrder = <C>(a: StateNode<C>, b: StateNode<C>) =>
+  a.order - b.order;
+
+/**
+ * The innermost compound state (or the root) that contains every given node
+ */
+function findCommonAncestor<C>(nodes: StateNode<C>[]): StateNode<C> {
+  const [first, ...rest] = nodes;
+  const candidates = getProperAncestors(first, null).filter(
+    (ancestor) => ancestor.type === "compound" || ancestor.parent === null,
+  );
+  return (
+    candidates.find((ancestor) =>
+      rest.every((node) => isDescendant(node, ancestor)),
+    ) ?? first
+  );
+}
+
+/**
+ * The state whose descendants a transition exits and re-enters, or `null`
+ * for a targetless transition
+ */
+function getTransitionDomain<C>(
+  transition: Transition<C>,
+): StateNode<C> | null {
+  if (transition.targets.length === 0) return null;
+
+  const { source, targets } = transition;
+  if (
+    transition.internal &&
+    source.type === "compound" &&
+    targets.every((target) => isDescendant(target, source))
+  ) {
+    return source;
+  }
+  return findCommonAncestor([source, ...targets]);
+}
+
+/**
+ * Active states a transition leaves, deepest first
+ */
+export function getExitSet<C>(
+  transition: Transition<C>,
+  configuration: Set<StateNode<C>>,
+): StateNode<C>[] {
+  const domain = getTransitionDomain(transition);
+  if (!domain) return [];
+
+  return [...configuration]
+    .filter((node) => isDescendant(node, domain))
+    .sort(byDocumentOrder)
+    .reverse();
+}
+
+/**
+ * States a set of transitions enters, outermost first. History states are
+ * replaced by what they recorded, or by their default targets.
+ */
+export function getEntrySet<C>(
+  transitions: Transition<C>[],
+  history: HistoryRecord<C>,
+): StateNode<C>[] {
+  const toEnter = new Set<StateNode<C>>();
+
+  const hasDescendantToEnter = (node: StateNode<C>) =>
+    [...toEnter].some((entering) => isDescendant(entering, node));
+
+  const addDescendants = (node: StateNode<C>) => {
+    if (node.type === "history") {
+      const restored = history.get(node.id) ?? node.historyTargets;
+      restored.forEach((state) => {
+        addDescendants(state);
+        addAncestors(state, node.parent);
+      });
+      return;
+    }
+
+    toEnter.add(node);
+    if (node.type === "compound") {
+      if (!hasDescendantToEnter(node)) {
+        addDescendants(node.initial as StateNode<C>);
+      }
+    } else if (node.type === "parallel") {
+      node.children
+        .filter((child) => child.type !== "history")
+        .forEach((child) => {
+          if (!toEnter.has(child) && !hasDescendantToEnter(child)) {
+            addDescendants(child);
+          }
+        });
+    }
+  };
+
+  const addAncestors = (node: StateNode<C>, upTo: StateNode<C> | null) => {
+    getProperAncestors(node, upTo).forEach((ancestor) => {
+      toEnter.add(ancestor);
+      if (ancestor.type === "parallel") {
+        ancestor.children
+          .filter((child) => child.type !== "history")
+          .forEach((child) => {
+            if (!toEnter.has(child) && !hasDescendantToEnter(child)) {
+              addDescendants(child);
+            }
+          });
+      }
+    });
+  };
+
+  transitions.forEach((transition) => {
+    const domain = getTransitionDomain(transition);
+    transition.targets.forEach((target) => {
+      addDescendants(target);
+      addAncestors(target, domain);
+    });
+  });
+
+  return [...toEnter].sort(byDocumentOrder);
+}
+
+/**
+ * Picks the transitions an event triggers. Each active leaf looks for an
+ * enabled transition on itself first and then on its ancestors, so the
+ * deepest state that handles an event wins. When two picked transitions
+ * would exit the same states, the one from the deeper source is kept.
+ */
+export function selectTransitions<C>(
+  configuration: Set<StateNode<C>>,
+  event: MachineEvent,
+  context: C,
+): { selected: Transition<C>[]; blockedByGuard: boolean } {
+  const leaves = [...configuration]
+    .filter((node) => !node.children.some((child) => configuration.has(child)))
+    .sort(byDocumentOrder);
+  let selected: Transition<C>[] = [];
+  let blockedByGuard = false;
+
+  leaves.forEach((leaf) => {
+    for (let node: StateNode<C> | null = leaf; node; node = node.parent) {
+      const candidates = node.transitions.filter((t) => t.event === event.type);
+      const enabled = candidates.find(
+        (t) => !t.guard || t.guard(context, event),
+      );
+      if (candidates.length > 0 && !enabled) blockedByGuard = true;
+      if (!enabled) continue;
+
+      if (!selected.includes(enabled)) {
+        const exitSet = new Set(getExitSet(enabled, configuration));
+        const conflicts = selected.filter((other) =>
+          getExitSet(other, configuration).some((state) => exitSet.has(state)),
+        );
+        if (
+          conflicts.every((other) => isDescendant(enabled.source, other.source))
+        ) {
+          selected = [
+            ...selected.filter((other) => !conflicts.includes(other)),
+            enabled,
+          ];
+        }
+      }
+      break;
+    }
+  });
+
+  return { selected, blockedByGuard };
+}
+
+/**
+ * The states a state value describes, in document order. Compound states
+ * without a child in the value enter their initial state, and parallel
+ * states their missing regions. Throws when the value names a state the
+ * tree doesn't have.
+ */
+export function resolveStateValue<C>(
+  tree: StateTree<C>,
+  value: StateValue,
+): StateNode<C>[] {
+  const states = new Set<StateNode<C>>();
+
+  const enterDefaults = (node: StateNode<C>) => {
+    const transition: Transition<C> = {
+      event: "",
+      source: tree.root,
+      targets: [node],
+      actions: [],
+      internal: false,
+    };
+    getEntrySet([transition], new Map())
+      .filter((state) => state === node || isDescendant(state, node))
+      .forEach((state) => states.add(state));
+  };
+
+  const visit = (node: StateNode<C>, nodeValue: StateValue) => {
+    const children: Record<string, StateValue> =
+      typeof nodeValue === "string" ? { [nodeValue]: {} } : nodeValue;
+    const keys = Object.keys(children);
+    const regions = node.children.filter((child) => child.type !== "history");
+
+    keys.forEach((key) => {
+      if (!regions.some((child) => child.key === key)) {
+        throw new Error(
+          `State '${pathToString([...node.path, key])}' does not exist in this machine`,
+        );
+      }
+    });
+
+    if (keys.length === 0) {
+      enterDefaults(node);
+      return;
+    }
+    if (node.type !== "parallel" && keys.length > 1) {
+      throw new Error(
+        `State '${node.id}' can only have one active child, got ${keys.join(", ")}`,
+      );
+    }
+
+    states.add(node);
+    regions.forEach((child) => {
+      if (child.key in children) {
+        visit(child, children[child.key]);
+      } else if (node.type === "parallel") {
+        enterDefaults(child);
+      }
+    });
+  };
+
+  visit(tree.root, value);
+  return [...states].sort(byDocumentOrder);
+}
+
+/**
+ * Builds the value of the subtree below `node` from the active states
+ */
+export function getStateValue<C>(
+  node: StateNode<C>,
+  configuration: Set<StateNode<C>>,
+): StateValue {
+  const active = node.children.filter((child) => configuration.has(child));
+
+  if (node.type === "parallel") {
+    return Object.fromEntries(
+      active.map((child) => [
+        child.key,
+        child.children.length > 0 ? getStateValue(child, configuration) : {},
+      ]),
+    );
+  }
+
+  const [child] = active;
+  if (!child) return {};
+  return child.type === "compound" || child.type === "parallel"
+    ? { [child.key]: getStateValue(child, configuration) }
+    : child.key;
+}
+
+/**
+ * The deepest active state that every active leaf lies within, as a dot
+ * path. For a machine without parallel regions that is the active leaf.
+ */
+export function getCurrentPath<C>(
+  root: StateNode<C>,
+  configuration: Set<StateNode<C>>,
+): string {
+  let node = root;
+  while (node.type === "compound") {
+    const child = node.children.find((c) => configuration.has(c));
+    if (!child) break;
+    node = child;
+  }
+  return pathToString(node.path);
+}
@@ -0,0 +1,321 @@
+import {
+  batch,
+  createDerivedState,
+  createReactiveState,
+  createRoot,
+  ReactiveState,
+  registerWithScope,
+  StateOptions,
+  untrack,
+} from "./reactive-state.js";
+
+type Updater<V> = V | ((_prev: V) => V);
+
+/**
+ * Path-based setter. Only readers of the written path (or of paths below it
+ * whose values actually changed) are notified.
+ */
+export interface SetStoreFunction<T> {
+  <K1 extends keyof T>(_k1: K1, _value: Updater<T[K1]>): void;
+  <K1 extends keyof T, K2 extends keyof T[K1]>(
+    _k1: K1,
+    _k2: K2,
+    _value: Updater<T[K1][K2]>,
+  ): void;
+  <K1 extends keyof T, K2 extends keyof T[K1], K3 extends keyof T[K1][K2]>(
+    _k1: K1,
+    _k2: K2,
+    _k3: K3,
+    _value: Updater<T[K1][K2][K3]>,
+  ): void;
+  <
+    K1 extends keyof T,
+    K2 extends keyof T[K1],
+    K3 extends keyof T[K1][K2],
+    K4 extends keyof T[K1][K2][K3],
+  >(
+    _k1: K1,
+    _k2: K2,
+    _k3: K3,
+    _k4: K4,
+    _value: Updater<T[K1][K2][K3][K4]>,
+  ): void;
+}
+
+/**
+ * A reactive object with fine-grained tracking. `value()` returns a
+ * read-only proxy: reading `store.value().user.name` inside a computation
+ * subscribes to that path only. `subscribe` callbacks run once per change
+ * to any path.
+ */
+export interface Store<T extends object> extends ReactiveState<T> {
+  set: SetStoreFunction<T>;
+}
+
+// Tracks iteration (Object.keys, for...in) over an object
+const ITERATE = Symbol("iterate");
+const RAW = Symbol("raw");
+
+// One version counter per (object, key) that has been read reactively
+const propertySignals = new WeakMap<
+  object,
+  Map<PropertyKey, ReactiveState<number>>
+>();
+const proxies = new WeakMap<object, object>();
+// Bumped on every write so a no-op update doesn't notify subscribers
+let writeCount = 0;
+
+const isWrappable = (value: unknown): value is Record<PropertyKey, any> => {
+  if (value === null || typeof value !== "object") return false;
+  if (Array.isArray(value)) return true;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+const unwrap = <V>(value: V): V =>
+  isWrappable(value) ? ((value as any)[RAW] ?? value) : value;
+
+/**
+ * Deep copy of `value` with every store proxy unwrapped, so an inserted
+ * subtree neither carries read-only proxies nor aliases another path
+ */
+function snapshot<V>(value: V): V {
+  const raw = unwrap(value);
+  if (!isWrappable(raw)) return raw;
+  if (Array.isArray(raw)) return raw.map(snapshot) as V;
+
+  const copy = Object.create(Object.getPrototypeOf(raw));
+  Object.keys(raw).forEach((key) => (copy[key] = snapshot(raw[key])));
+  return copy;
+}
+
+const normalizeKey = (key: PropertyKey) =>
+  typeof key === "symbol" ? key : String(key);
+
+/**
+ * Registers a read of `target[key]` with the running computation
+ */
+function trackProperty(target: object, key: PropertyKey) {
+  let signals = propertySignals.get(target);
+  if (!signals) {
+    signals = new Map();
+    propertySignals.set(target, signals);
+  }
+
+  const normalized = normalizeKey(key);
+  let signal = signals.get(normalized);
+  if (!signal) {
+    // Created outside the reading computation, whose re-run would otherwise
+    // dispose a signal other readers of this path still depend on
+    signal = createRoot(() => createReactiveState(0, { intercept: false }));
+    signals.set(normalized, signal);
+  }
+  signal.value();
+}
+
+/**
+ * Notifies readers of `target[key]`, if there are any
+ */
+function triggerProperty(target: object, key: PropertyKey) {
+  writeCount++;
+  propertySignals
+    .get(target)
+    ?.get(normalizeKey(key))
+    ?.setValue((version) => version + 1);
+}
+
+const proxyHandler: ProxyHandler<Record<PropertyKey, any>> = {
+  get(target, key, receiver) {
+    if (key === RAW) return target;
+
+    const value = Reflect.get(target, key, receiver);
+    // Array and object methods read what they need through the proxy
+    if (typeof value === "function" && !Object.hasOwn(target, key)) {
+      return value;
+    }
+
+    trackProperty(target, key);
+    return wrap(value);
+  },
+  has(target, key) {
+    trackProperty(target, key);
+    return Reflect.has(target, key);
+  },
+  ownKeys(target) {
+    trackProperty(target, Array.isArray(target) ? "length" : ITERATE);
+    return Reflect.ownKeys(target);
+  },
+  set() {
+    throw new Error("Stores are read-only; update them with store.set()");
+  },
+  deleteProperty() {
+    throw new Error("Stores are read-only; update them with store.set()");
+  },
+};
+
+function wrap<V>(value: V): V {
+  if (!isWrappable(value)) return value;
+
+  let proxy = proxies.get(value);
+  if (!proxy) {
+    proxy = new Proxy(value, proxyHandler);
+    proxies.set(value, proxy);
+  }
+  return proxy as V;
+}
+
+/**
+ * Writes `next` into `target[key]`. Plain objects and arrays are merged
+ * into the existing ones key by key, so readers of unchanged paths are not
+ * notified even when a whole subtree is replaced. Anything else is
+ * inserted as a copy.
+ */
+function applyValue(
+  target: Record<PropertyKey, any>,
+  key: PropertyKey,
+  next: unknown,
+) {
+  const prev = target[key];
+  next = unwrap(next);
+  if (prev === next) return;
+
+  if (
+    isWrappable(prev) &&
+    isWrappable(next) &&
+    Array.isArray(prev) === Array.isArray(next)
+  ) {
+    reconcile(prev, next);
+    return;
+  }
+
+  const hadKey = Object.hasOwn(target, key);
+  const prevLength = Array.isArray(target) ? target.length : 0;
+  target[key] = snapshot(next);
+  triggerProperty(target, key);
+
+  if (Array.isArray(target)) {
+    if (target.length !== prevLength) triggerProperty(target, "length");
+  } else if (!hadKey) {
+    triggerProperty(target, ITERATE);
+  }
+}
+
+/**
+ * Makes `target` structurally equal to `source` in place
+ */
+function reconcile(
+  target: Record<PropertyKey, any>,
+  source: Record<PropertyKey, any>,
+) {
+  if (Array.isArray(target)) {
+    const sourceArray = source as unknown[];
+    sourceArray.forEach((item, index) => applyValue(target, index, item));
+
+    if (target.length !== sourceArray.length) {
+      for (let index = sourceArray.length; index < target.length; index++) {
+        triggerProperty(target, index);
+      }
+      target.length = sourceArray.length;
+      triggerProperty(target, "length");
+    }
+    return;
+  }
+
+  Object.keys(source).forEach((key) => applyValue(target, key, source[key]));
+
+  const removedKeys = Object.keys(target).filter(
+    (key) => !Object.hasOwn(source, key),
+  );
+  removedKeys.forEach((key) => {
+    delete target[key];
+    triggerProperty(target, key);
+  });
+  if (removedKeys.length > 0) {
+    triggerProperty(target, ITERATE);
+  }
+}
+
+/**
+ * Creates a store with fine-grained, path-level change tracking. It is a
+ * `ReactiveState`, so it works with `derive`, `createSelector` and
+ * `createMemoizedSelector`; selectors only re-run when a path they read
+ * changes.
+ */
+export function createStore<T extends object>(initialValue: T): Store<T> {
+  if (!isWrappable(initialValue)) {
+    throw new Error("createStore expects a plain object or array");
+  }
+
+  // The root is held in a container so the whole value can be replaced
+  const container: { root: T } = { root: snapshot(initialValue) };
+  const version = createReactiveState(0, { intercept: false });
+
+  const value = () => {
+    trackProperty(container, "root");
+    return wrap(container.root);
+  };
+
+  const commit = (write: () => void) => {
+    batch(() => {
+      const writesBefore = writeCount;
+      untrack(write);
+      if (writeCount !== writesBefore) {
+        version.setValue((v) => v + 1);
+      }
+    });
+  };
+
+  const setValue = (_newValue: T | ((_prev: T) => T)) => {
+    commit(() => {
+      const next =
+        typeof _newValue === "function"
+          ? (_newValue as (_prev: T) => T)(wrap(container.root))
+          : _newValue;
+      applyValue(container, "root", next);
+    });
+  };
+
+  const set = ((...args: unknown[]) => {
+    const path = args.slice(0, -1) as PropertyKey[];
+    const update = args[args.length - 1];
+
+    commit(() => {
+      let target: Record<PropertyKey, any> = container.root;
+      for (const key of path.slice(0, -1)) {
+        target = target[key];
+        if (!isWrappable(target)) {
+          throw new Error(`Cannot set store path '${path.join(".")}'`);
+        }
+      }
+
+      const key = path[path.length - 1];
+      const next =
+        typeof update === "function"
+          ? (update as (_prev: unknown) => unknown)(wrap(target[key]))
+          : update;
+      applyValue(target, key, next);
+    });
+  }) as SetStoreFunction<T>;
+
+  const subscribe = (_callback: (_value: T) => void) =>
+    version.subscribe(() => _callback(wrap(container.root)));
+
+  const dispose = () => {
+    unregister();
+    version.dispose?.();
+  };
+
+  const unregister = registerWithScope(dispose);
+
+  const store: Store<T> = {
+    value,
+    setValue,
+    subscribe,
+    derive: <U>(_fn: (_value: T) => U, _options?: StateOptions<U>) =>
+      createDerivedState(_fn, store, _options),
+    set,
+    dispose,
+  };
+
+  return store;
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createActorSystem, actorDoneEvent, actorErrorEvent } from '../../src/state/actor-system';
+import { createStateMachine, assign } from '../../src/state/state-machine';
+
+describe('Actor System', () => {
+  it('should pass messages between actors by address', () => {
+    const system = createActorSystem();
+    system.spawn('pong', ({ send }) =>
+      createStateMachine<'ready', 'PING', { hits: number }, { PING: string }>({
+        context: { hits: 0 },
+        on: {
+          PING: {
+            actions: [
+              assign({ hits: (context) => context.hits + 1 }),
+              (_context, event) => send(event.payload, 'PONG'),
+            ],
+          },
+        },
+        states: { ready: {} },
+      }),
+    );
+    const ping = system.spawn('ping', ({ self, send }) =>
+      createStateMachine({
+        initial: 'idle',
+        states: {
+          idle: { on: { START: { target: 'waiting', actions: () => send('pong', 'PING', self.address) } } },
+          waiting: { on: { PONG: 'done' } },
+          done: {},
+        },
+      }),
+    );
+
+    ping.send('START');
+    expect(ping.machine.currentState).toBe('done');
+    expect(system.get('pong')?.machine.context).toEqual({ hits: 1 });
+  });
+
+  it('should spawn children and report when they finish', () => {
+    const system = createActorSystem();
+    const parent = system.spawn('checkout', ({ spawn }) =>
+      createStateMachine({
+        initial: 'paying',
+        states: {
+          paying: {
+            entry: () => {
+              spawn('payment', () =>
+                createStateMachine({
+                  initial: 'pending',
+                  context: { receipt: 'r-1' },
+                  states: { pending: { on: { CONFIRM: 'paid' } }, paid: { type: 'final' } },
+                }),
+              );
+            },
+            on: { [actorDoneEvent('checkout/payment')]: 'complete' },
+          },
+          complete: {},
+        },
+      }),
+    );
+
+    expect(system.inspect().map((actor) => actor.address)).toEqual(['checkout', 'checkout/payment']);
+    system.send('checkout/payment', 'CONFIRM');
+
+    expect(parent.machine.currentState).toBe('complete');
+    expect(system.get('checkout/payment')).toBeUndefined();
+  });
+
+  it('should restart or stop failing children', () => {
+    const system = createActorSystem();
+    const events: string[] = [];
+    system.subscribe((event) => events.push(`${event.type} ${event.address}`));
+
+    const crashing = () =>
+      createStateMachine({
+        initial: 'idle',
+        context: { count: 0 },
+        states: {
+          idle: {
+            on: {
+              ADD: { actions: assign<{ count: number }>({ count: (context) => context.count + 1 }) },
+              CRASH: {
+                actions: () => {
+                  throw new Error('boom');
+                },
+              },
+            },
+          },
+        },
+      });
+
+    const parent = system.spawn('supervisor', ({ spawn }) => {
+      spawn('restarted', crashing, { maxRestarts: 1 });
+      spawn('stopped', crashing, { supervision: 'stop' });
+      return createStateMachine({
+        initial: 'watching',
+        states: {
+          watching: { on: { [actorErrorEvent('supervisor/stopped')]: 'degraded' } },
+          degraded: {},
+        },
+      });
+    });
+
+    system.send('supervisor/restarted', 'ADD');
+    system.send('supervisor/restarted', 'CRASH');
+    expect(system.get('supervisor/restarted')?.machine.context).toEqual({ count: 0 });
+    expect(events).toContain('restarted supervisor/restarted');
+
+    system.send('supervisor/restarted', 'CRASH');
+    expect(system.get('supervisor/restarted')).toBeUndefined();
+
+    system.send('supervisor/stopped', 'CRASH');
+    expect(system.get('supervisor/stopped')).toBeUndefined();
+    expect(parent.machine.currentState).toBe('degraded');
+  });
+
+  it('should supervise failures in delayed transitions', () => {
+    vi.useFakeTimers();
+    try {
+      const system = createActorSystem();
+      const failing = () =>
+        createStateMachine({
+          initial: 'waiting',
+          states: {
+            waiting: { after: { 1000: 'broken' } },
+            broken: {
+              entry: () => {
+                throw new Error('late boom');
+              },
+            },
+          },
+        });
+
+      const restarted = system.spawn('restarted', failing, { maxRestarts: 1 });
+      const stopped = system.spawn('stopped', failing, { supervision: 'stop' });
+
+      vi.advanceTimersByTime(1000);
+      expect(restarted.status).toBe('running');
+      expect(restarted.machine.currentState).toBe('waiting');
+      expect(system.inspect().find((actor) => actor.address === 'restarted')?.restarts).toBe(1);
+      expect(stopped.status).toBe('stopped');
+
+      vi.advanceTimersByTime(1000);
+      expect(restarted.status).toBe('stopped');
+      expect(vi.getTimerCount()).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should drop unhandled messages and stop everything on shutdown', () => {
+    const system = createActorSystem();
+    const listener = vi.fn();
+    system.subscribe(listener);
+    const light = system.spawn('light', () => createStateMachine({ initial: 'off', states: { off: {}, on: {} } }));
+
+    system.send('light', 'TOGGLE');
+    system.send('missing', 'TOGGLE');
+    expect(listener).toHaveBeenCalledWith({ type: 'dropped', address: 'light', from: undefined, event: 'TOGGLE' });
+    expect(listener).toHaveBeenCalledWith({ type: 'dropped', address: 'missing', from: undefined, event: 'TOGGLE' });
+    expect(() => system.spawn('light', () => light.machine)).toThrow("An actor is already running at 'light'");
+
+    system.shutdown();
+    expect(light.status).toBe('stopped');
+    expect(system.inspect()).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { createComputed, batch } from '../../src/state/reactive-state';
+import {
+  createReactiveMap,
+  createReactiveSet,
+  createReactiveArray,
+  mapArray,
+  ArrayChange,
+} from '../../src/state/collections';
+
+describe('Reactive Collections', () => {
+  it('should track map reads per key', () => {
+    const users = createReactiveMap([
+      ['alice', 1],
+      ['bob', 2],
+    ]);
+    let runs = 0;
+    const alice = createComputed(() => {
+      runs++;
+      return users.get('alice');
+    });
+    const size = createComputed(() => users.size);
+    alice.subscribe(() => {});
+    size.subscribe(() => {});
+    runs = 0;
+
+    users.set('bob', 3);
+    expect(runs).toBe(0);
+    expect(size.value()).toBe(2);
+
+    users.set('alice', 5);
+    users.set('carol', 1);
+    expect(runs).toBe(1);
+    expect(alice.value()).toBe(5);
+    expect(size.value()).toBe(3);
+  });
+
+  it('should report map and set changes once per commit', () => {
+    const map = createReactiveMap<string, number>();
+    const commits: unknown[] = [];
+    map.changes.subscribe((changes) => commits.push(changes));
+
+    batch(() => {
+      map.set('a', 1);
+      map.set('a', 2);
+    });
+    map.delete('a');
+
+    expect(commits).toEqual([
+      [
+        { type: 'insert', key: 'a', value: 1 },
+        { type: 'update', key: 'a', value: 2, previous: 1 },
+      ],
+      [{ type: 'remove', key: 'a', value: 2 }],
+    ]);
+
+    const tags = createReactiveSet(['x']);
+    const hasY = createComputed(() => tags.has('y'));
+    hasY.subscribe(() => {});
+    tags.setValue(new Set(['y']));
+    expect(hasY.value()).toBe(true);
+    expect(tags.changes.value()).toEqual([
+      { type: 'remove', value: 'x' },
+      { type: 'insert', value: 'y' },
+    ]);
+  });
+
+  it('should only re-run index readers whose item changed or moved', () => {
+    const list = createReactiveArray(['a', 'b', 'c']);
+    let firstRuns = 0;
+    const first = createComputed(() => {
+      firstRuns++;
+      return list.get(0);
+    });
+    first.subscribe(() => {});
+    firstRuns = 0;
+
+    list.push('d');
+    list.set(2, 'C');
+    expect(firstRuns).toBe(0);
+
+    list.unshift('z');
+    expect(firstRuns).toBe(1);
+    expect(list.value()).toEqual(['z', 'a', 'b', 'C', 'd']);
+  });
+
+  it('should diff a new array by key into moves and updates', () => {
+    const todos = createReactiveArray(
+      [
+        { id: 1, done: false },
+        { id: 2, done: false },
+        { id: 3, done: false },
+      ],
+      { key: (todo) => todo.id, equals: 'shallow' },
+    );
+    const commits: ArrayChange<{ id: number; done: boolean }>[][] = [];
+    todos.changes.subscribe((changes) => commits.push(changes));
+
+    todos.setValue([
+      { id: 3, done: false },
+      { id: 1, done: true },
+      { id: 4, done: false },
+    ]);
+
+    expect(commits[0].map((change) => change.type)).toEqual([
+      'remove',
+      'move',
+      'update',
+      'insert',
+    ]);
+    expect(todos.value().map((todo) => todo.id)).toEqual([3, 1, 4]);
+  });
+
+  it('should map an array incrementally', () => {
+    const list = createReactiveArray([1, 2, 3]);
+    const calls: number[] = [];
+    const doubled = mapArray(list, (n) => {
+      calls.push(n);
+      return n * 2;
+    });
+    calls.length = 0;
+
+    list.move(0, 2);
+    list.splice(1, 1, 10);
+
+    expect(doubled.value()).toEqual([4, 20, 2]);
+    expect(calls).toEqual([10]);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createReactiveState, batch } from '../../src/state/reactive-state';
+import { createHistory } from '../../src/state/history';
+
+describe('State History', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should undo and redo changes', () => {
+    const text = createHistory(createReactiveState('a'));
+
+    text.setValue('b');
+    text.setValue('c');
+    text.undo();
+    expect(text.value()).toBe('b');
+    text.undo();
+    expect(text.value()).toBe('a');
+    expect(text.canUndo.value()).toBe(false);
+
+    text.redo();
+    expect(text.value()).toBe('b');
+    expect(text.canRedo.value()).toBe(true);
+  });
+
+  it('should discard the redo branch when a new change is recorded', () => {
+    const count = createHistory(createReactiveState(0));
+
+    count.setValue(1);
+    count.setValue(2);
+    count.undo();
+    count.setValue(10);
+
+    expect(count.entries.value().map((e) => e.value)).toEqual([0, 1, 10]);
+    expect(count.canRedo.value()).toBe(false);
+  });
+
+  it('should jump to any entry', () => {
+    const count = createHistory(createReactiveState(0));
+    [1, 2, 3].forEach((v) => count.setValue(v));
+
+    count.jumpTo(1);
+    expect(count.value()).toBe(1);
+    expect(count.index.value()).toBe(1);
+  });
+
+  it('should cap the number of entries', () => {
+    const count = createHistory(createReactiveState(0), { limit: 3 });
+    [1, 2, 3, 4].forEach((v) => count.setValue(v));
+
+    expect(count.entries.value().map((e) => e.value)).toEqual([2, 3, 4]);
+  });
+
+  it('should coalesce rapid updates into one entry', () => {
+    vi.useFakeTimers();
+    const text = createHistory(createReactiveState(''), { coalesce: 500 });
+
+    text.setValue('h');
+    vi.advanceTimersByTime(100);
+    text.setValue('he');
+    vi.advanceTimersByTime(100);
+    text.setValue('hey');
+    vi.advanceTimersByTime(1000);
+    text.setValue('hey!');
+
+    expect(text.entries.value().map((e) => e.value)).toEqual([
+      '',
+      'hey',
+      'hey!',
+    ]);
+  });
+
+  it('should record a batch as a single entry', () => {
+    const form = createHistory(createReactiveState({ name: '', email: '' }));
+
+    batch(() => {
+      form.setValue((f) => ({ ...f, name: 'Ada' }));
+      form.setValue((f) => ({ ...f, email: 'ada@example.com' }));
+    });
+
+    expect(form.entries.value()).toHaveLength(2);
+    form.undo();
+    expect(form.value()).toEqual({ name: '', email: '' });
+  });
+
+  it('should undo and redo inside a batch without recording an entry', () => {
+    const count = createHistory(createReactiveState(0));
+    count.setValue(1);
+
+    batch(() => count.undo());
+    expect(count.value()).toBe(0);
+    expect(count.entries.value().map((entry) => entry.value)).toEqual([0, 1]);
+    expect(count.canRedo.value()).toBe(true);
+
+    batch(() => count.redo());
+    expect(count.value()).toBe(1);
+    expect(count.index.value()).toBe(1);
+    expect(count.entries.value()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createReactiveState } from '../../src/state/reactive-state';
+import {
+  createStateRegistry,
+  serializeValue,
+  deserializeValue,
+} from '../../src/state/hydration';
+import { createDataFetcher } from '../../src/data/data-fetcher';
+
+describe('State Hydration', () => {
+  it('should round-trip Dates, Maps, Sets and other non-JSON values', () => {
+    const value = {
+      createdAt: new Date('2024-01-02T03:04:05.000Z'),
+      tags: new Set(['a', 'b']),
+      scores: new Map([['alice', 3]]),
+      missing: undefined,
+      ratio: Infinity,
+      $type: 'looks like a tag',
+    };
+
+    const restored = deserializeValue<typeof value>(serializeValue(value));
+
+    expect(restored).toEqual(value);
+    expect(restored.createdAt).toBeInstanceOf(Date);
+    expect(restored.scores.get('alice')).toBe(3);
+  });
+
+  it('should transfer registered states from server to client', () => {
+    const server = createStateRegistry();
+    server.register('user', createReactiveState({ name: 'Ada' }));
+    server.register('lastSeen', createReactiveState(new Date(0)));
+    const payload = server.serialize();
+
+    const client = createStateRegistry();
+    const user = createReactiveState({ name: '' });
+    client.register('user', user);
+    client.hydrate(payload);
+
+    // Registered after hydrate, e.g. while rendering a component
+    const lastSeen = createReactiveState(new Date());
+    client.register('lastSeen', lastSeen);
+
+    expect(user.value()).toEqual({ name: 'Ada' });
+    expect(lastSeen.value().getTime()).toBe(0);
+    expect(client.endHydration()).toEqual([]);
+  });
+
+  it('should report mismatches', () => {
+    const server = createStateRegistry();
+    server.register('count', createReactiveState(5));
+    server.register('theme', createReactiveState('dark'));
+
+    const onMismatch = vi.fn();
+    const client = createStateRegistry({ onMismatch });
+    const count = createReactiveState(0);
+    client.register('count', count);
+    client.register('locale', createReactiveState('en'));
+    count.setValue(1);
+
+    client.hydrate(server.serialize());
+    const mismatches = client.endHydration();
+
+    expect(count.value()).toBe(1);
+    expect(mismatches).toEqual([
+      { name: 'count', kind: 'modified', serverValue: 5, clientValue: 1 },
+      { name: 'theme', kind: 'unexpected', serverValue: 'dark' },
+      { name: 'locale', kind: 'missing', clientValue: 'en' },
+    ]);
+    expect(onMismatch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should escape the payload script so it cannot break out of the tag', () => {
+    const registry = createStateRegistry();
+    registry.register('html', createReactiveState('</script><script>'));
+
+    const script = registry.toScript({ nonce: 'abc' });
+
+    expect(script).toContain('nonce="abc"');
+    expect(script.match(/<\/script>/g)).toHaveLength(1);
+  });
+
+  it('should transfer the data-fetcher cache', () => {
+    const fetcher = createDataFetcher();
+    fetcher.hydrate({
+      'GET:/api/hydrated:': { data: { id: 1 }, timestamp: 1, strategy: 'ssr' },
+    });
+
+    expect(fetcher.dehydrate()['GET:/api/hydrated:'].data).toEqual({ id: 1 });
+    expect(fetcher.useQuery('/api/hydrated').data).toEqual({ id: 1 });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createStateMachine } from '../../src/state/state-machine';
+import {
+  toMermaid,
+  toDot,
+  toSCXML,
+  fromSCXML,
+  toMachineGraph,
+} from '../../src/state/machine-graph';
+import { createStateMachineFromPrompt } from '../../src/ai/state-machine-generator';
+import { MachineConfig } from '../../src/state/statechart';
+
+const hasItems = (context: { items: number }) => context.items > 0;
+
+const checkout: MachineConfig<{ items: number }> = {
+  id: 'checkout',
+  initial: 'cart',
+  context: { items: 1 },
+  states: {
+    cart: { on: { CHECKOUT: { target: 'payment', guard: hasItems } } },
+    payment: {
+      initial: 'card',
+      on: { BACK: 'cart' },
+      states: {
+        card: { on: { SWITCH: 'invoice' } },
+        invoice: { after: { 5000: 'card' } },
+        hist: { type: 'history' },
+      },
+    },
+    done: { type: 'final' },
+  },
+};
+
+describe('Machine Graph Export', () => {
+  it('should render generated machines as Mermaid', () => {
+    const generated = createStateMachineFromPrompt('A form with loading and error states');
+    const mermaid = toMermaid(generated);
+
+    expect(generated.diagram).toBe(mermaid);
+    expect(mermaid.split('\n')[0]).toBe('stateDiagram-v2');
+    expect(mermaid).toContain('[*] --> idle');
+    expect(mermaid).toContain('loading --> success : complete');
+  });
+
+  it('should render nested states, guards and delays', () => {
+    const machine = createStateMachine(checkout);
+    const mermaid = toMermaid(machine);
+    const dot = toDot(machine);
+
+    expect(mermaid).toContain('state "payment" as payment {');
+    expect(mermaid).toContain('cart --> payment : CHECKOUT [hasItems]');
+    expect(mermaid).toContain('payment_invoice --> payment_card : after 5000ms');
+    expect(mermaid).toContain('done --> [*]');
+
+    expect(dot).toContain('subgraph "cluster_payment"');
+    expect(dot).toContain('"cart" -> "payment.card" [label="CHECKOUT [hasItems]", lhead="cluster_payment"]');
+    expect(dot).toContain('"done" [label="done", peripheries=2]');
+  });
+
+  it('should round-trip through SCXML', () => {
+    vi.useFakeTimers();
+    try {
+      const scxml = toSCXML(checkout);
+      expect(scxml).toContain('<state id="payment" initial="payment.card">');
+      expect(scxml).toContain('cond="hasItems"');
+      expect(scxml).toContain('<send event="after.5000.payment.invoice"');
+
+      const imported = fromSCXML(scxml, {
+        guards: { hasItems },
+        context: { items: 1 },
+      });
+      expect(toMachineGraph(imported)).toEqual(toMachineGraph(checkout));
+
+      const machine = createStateMachine(imported);
+      machine.send('CHECKOUT');
+      machine.send('SWITCH');
+      expect(machine.currentState).toBe('payment.invoice');
+      vi.advanceTimersByTime(5000);
+      expect(machine.currentState).toBe('payment.card');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should import SCXML written by other tools', () => {
+    const config = fromSCXML(`<?xml version="1.0"?>
+      <!-- a traffic light -->
+      <scxml xmlns="http://www.w3.org/2005/07/scxml" version="1.0" initial="light">
+        <parallel id="light">
+          <state id="color"><initial><transition target="red"/></initial>
+            <state id="red"><transition event="next" target="green"/></state>
+            <state id="green"><transition event="next" target="red"/></state>
+          </state>
+          <state id="power"><state id="on"/></state>
+        </parallel>
+      </scxml>`);
+    const machine = createStateMachine(config);
+
+    machine.send('next');
+
+    expect(machine.value).toEqual({ light: { color: 'green', power: 'on' } });
+    expect(() => fromSCXML('<scxml><state id="a"><transition event="go" cond="x" target="a"/></state></scxml>')).toThrow(
+      "No guard provided for SCXML condition 'x'",
+    );
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createStateMachine, assign } from '../../src/state/state-machine';
+import { MachineConfig } from '../../src/state/statechart';
+import {
+  createTestPlan,
+  runTestPath,
+  toVitestSource,
+} from '../../src/state/machine-testing';
+import {
+  createStateMachineFromPrompt,
+  validateStateMachine,
+} from '../../src/ai/state-machine-generator';
+
+interface Door {
+  locked: boolean;
+}
+
+const isUnlocked = (context: Door) => !context.locked;
+
+const door: MachineConfig<Door> = {
+  id: 'door',
+  initial: 'closed',
+  context: { locked: true },
+  states: {
+    closed: {
+      on: {
+        OPEN: { target: 'open', guard: isUnlocked },
+        UNLOCK: { actions: assign<Door>({ locked: false }) },
+      },
+    },
+    open: { on: { CLOSE: 'closed' }, after: { 1000: 'alarm' } },
+    alarm: { type: 'final' },
+  },
+};
+
+describe('Model-Based Testing', () => {
+  it('should find shortest paths, transition and guard coverage', () => {
+    const plan = createTestPlan(door);
+
+    const alarm = plan.states.find((path) => path.description.startsWith('reaches alarm'));
+    expect(alarm?.steps.map((step) => step.event)).toEqual([
+      'UNLOCK',
+      'OPEN',
+      'after.1000.open',
+    ]);
+    expect(plan.coverage.states.ratio).toBe(1);
+    expect(plan.coverage.transitions.uncovered).toEqual([]);
+    expect(plan.coverage.guards.covered).toEqual([
+      'closed on OPEN [true]',
+      'closed on OPEN [false]',
+    ]);
+    expect(plan.guards.find((path) => path.description.includes('[false]'))?.steps).toEqual([
+      { event: 'OPEN', payload: undefined, blocked: true, state: 'closed' },
+    ]);
+  });
+
+  it('should replay plans against the real machine', () => {
+    const plan = createTestPlan(door);
+    const paths = [...plan.states, ...plan.transitions, ...plan.guards];
+
+    paths.forEach((path) => runTestPath(() => createStateMachine(door), path));
+
+    const broken = { ...door, states: { ...door.states, open: { on: { CLOSE: 'alarm' } } } };
+    expect(() =>
+      plan.transitions.forEach((path) => runTestPath(() => createStateMachine(broken), path)),
+    ).toThrow('Step');
+  });
+
+  it('should emit Vitest source', () => {
+    const source = toVitestSource(createTestPlan(door), {
+      importPath: './door',
+      factory: 'createDoor',
+    });
+
+    expect(source).toContain("import { createDoor } from \"./door\";");
+    expect(source).toContain('describe("door model", () => {');
+    expect(source).toContain('machine.send("UNLOCK");');
+    expect(source).toContain('expect(machine.can("OPEN")).toBe(false);');
+  });
+  describe('with delayed transitions', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should stop every machine it explores', () => {
+      vi.useFakeTimers();
+      let exits = 0;
+      const counted: MachineConfig<Door> = {
+        ...door,
+        states: {
+          ...door.states,
+          open: { on: { CLOSE: 'closed' }, after: { 1000: 'alarm' }, exit: () => exits++ },
+        },
+      };
+
+      const plan = createTestPlan(counted);
+      plan.transitions.forEach((path) => runTestPath(() => createStateMachine(counted), path));
+      validateStateMachine(counted, { coverage: true });
+      const exitsBefore = exits;
+
+      vi.advanceTimersByTime(5000);
+      expect(exits).toBe(exitsBefore);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+});
+
+describe('State Machine Validation', () => {
+  it('should detect unreachable, dead and nondeterministic states', () => {
+    const validation = validateStateMachine(
+      {
+        initial: 'idle',
+        states: {
+          idle: { on: { GO: ['running', 'paused'] } },
+          running: {},
+          paused: { on: { GO: 'running' } },
+          orphan: { on: { GO: 'idle' } },
+        },
+      },
+      { coverage: true },
+    );
+
+    expect(validation.isValid).toBe(false);
+    expect(validation.unreachableStates).toEqual(['orphan']);
+    expect(validation.deadStates).toEqual(['running']);
+    expect(validation.nondeterministic).toEqual([
+      { state: 'idle', event: 'GO', count: 2, guarded: false },
+    ]);
+    expect(validation.coverage?.states.uncovered).toEqual(['paused', 'orphan']);
+  });
+
+  it('should keep validating generated machines', () => {
+    const generated = createStateMachineFromPrompt({
+      description: 'Upload with idle, loading, success and error states',
+      complexity: 'medium',
+    });
+    const validation = validateStateMachine(generated, { coverage: true });
+
+    expect(validation.errors).toEqual([]);
+    expect(validation.coverage?.transitions.ratio).toBe(1);
+  });
+
+  it('should not run the machine unless coverage is asked for', () => {
+    const action = vi.fn(() => {
+      throw new Error('side effect');
+    });
+    const validation = validateStateMachine({
+      initial: 'idle',
+      states: { idle: { on: { GO: { target: 'done', actions: action } } }, done: { type: 'final' } },
+    });
+
+    expect(validation.errors).toEqual([]);
+    expect(validation.coverage).toBeUndefined();
+    expect(action).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createReactiveState,
+  createComputed,
+  batch,
+} from '../../src/state/reactive-state';
+import {
+  addStateMiddleware,
+  StateWriteRejectedError,
+} from '../../src/state/middleware';
+import { createStore } from '../../src/state/store';
+import { createDevTools } from '../../src/devtools/devtools';
+
+describe('State Middleware', () => {
+  it('should transform values before they commit', () => {
+    const percent = createReactiveState(0, {
+      middleware: [(write, next) => next(Math.min(100, Math.max(0, write.value)))],
+    });
+    const label = createComputed(() => `${percent.value()}%`);
+
+    percent.setValue(150);
+
+    expect(percent.value()).toBe(100);
+    expect(label.value()).toBe('100%');
+  });
+
+  it('should reject writes with a typed error', () => {
+    const role = createReactiveState('viewer', {
+      name: 'role',
+      middleware: [
+        (write, next) => {
+          if (write.value === 'admin') write.reject('not allowed');
+          next(write.value);
+        },
+      ],
+    });
+
+    let error: unknown;
+    try {
+      role.setValue('admin');
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(StateWriteRejectedError);
+    expect((error as StateWriteRejectedError).stateName).toBe('role');
+    expect((error as StateWriteRejectedError).value).toBe('admin');
+    expect(role.value()).toBe('viewer');
+
+    // Rejections inside a rollback batch undo the other writes too
+    const other = createReactiveState(0);
+    expect(() =>
+      batch(
+        () => {
+          other.setValue(1);
+          role.setValue('admin');
+        },
+        { rollback: true },
+      ),
+    ).toThrow(StateWriteRejectedError);
+    expect(other.value()).toBe(0);
+  });
+
+  it('should run global middleware before per-state middleware', () => {
+    const log: string[] = [];
+    const remove = addStateMiddleware((write, next) => {
+      log.push(`global ${write.name}: ${write.previous} -> ${write.value}`);
+      next(write.value);
+    });
+    const count = createReactiveState(0, {
+      name: 'count',
+      middleware: [
+        (write, next) => {
+          log.push('local');
+          next(write.value);
+        },
+      ],
+    });
+    const hidden = createReactiveState(0, { intercept: false });
+
+    count.setValue(1);
+    hidden.setValue(1);
+    remove();
+    count.setValue(2);
+
+    expect(log).toEqual(['global count: 0 -> 1', 'local', 'local']);
+  });
+
+  it('should keep store internals out of global middleware', () => {
+    const writes: unknown[] = [];
+    const remove = addStateMiddleware((write, next) => {
+      writes.push(write.value);
+      next(write.value);
+    });
+
+    const store = createStore({ count: 0 });
+    store.value().count;
+    store.set('count', 1);
+    remove();
+
+    expect(writes).toEqual([]);
+  });
+
+  it('should feed the devtools state panel', () => {
+    const devTools = createDevTools();
+    const stop = devTools.trackStateWrites();
+
+    createReactiveState('a', { name: 'tracked' }).setValue('b');
+    devTools.open();
+    stop();
+
+    expect(devTools.getStateSnapshot().reactiveStates).toEqual([
+      expect.objectContaining({ id: 'tracked', value: 'b' }),
+    ]);
+  });
+
+  it('should track states with the same name separately', () => {
+    const devTools = createDevTools();
+    const stop = devTools.trackStateWrites();
+
+    createReactiveState(1, { name: 'count' }).setValue(2);
+    createReactiveState(1, { name: 'count' }).setValue(3);
+    devTools.open();
+    stop();
+
+    expect(devTools.getStateSnapshot().reactiveStates).toEqual([
+      expect.objectContaining({ id: 'count', value: 2 }),
+      expect.objectContaining({ id: 'count-2', value: 3 }),
+    ]);
+  });
+
+  it('should keep tracking until every caller has stopped', () => {
+    const devTools = createDevTools();
+    const stopFirst = devTools.trackStateWrites();
+    const stopSecond = devTools.trackStateWrites();
+    const state = createReactiveState(0, { name: 'count' });
+
+    stopFirst();
+    stopFirst();
+    state.setValue(1);
+    devTools.open();
+    expect(devTools.getStateSnapshot().reactiveStates).toEqual([
+      expect.objectContaining({ id: 'count', value: 1 }),
+    ]);
+
+    stopSecond();
+    state.setValue(2);
+    devTools.open();
+    expect(devTools.getStateSnapshot().reactiveStates).toEqual([
+      expect.objectContaining({ id: 'counter' }),
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { createReactiveState } from '../../src/state/reactive-state';
+import {
+  persistState,
+  createMemoryStorageAdapter,
+  createFileStorageAdapter,
+} from '../../src/state/persistence';
+
+describe('Persistent State', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should rehydrate synchronously from a sync adapter', () => {
+    const storage = createMemoryStorageAdapter({
+      theme: JSON.stringify({ version: 0, data: 'dark' }),
+    });
+    const theme = persistState(createReactiveState('light'), {
+      key: 'theme',
+      storage,
+    });
+
+    expect(theme.value()).toBe('dark');
+    expect(theme.hydrated.value()).toBe(true);
+  });
+
+  it('should write changes back to storage', () => {
+    const storage = createMemoryStorageAdapter();
+    const count = persistState(createReactiveState(0), {
+      key: 'count',
+      storage,
+      version: 2,
+    });
+
+    count.setValue(5);
+
+    expect(JSON.parse(storage.getItem('count') as string)).toEqual({
+      version: 2,
+      data: 5,
+    });
+  });
+
+  it('should run migrations from the stored version', () => {
+    const storage = createMemoryStorageAdapter({
+      prefs: JSON.stringify({ version: 1, data: { dark: true } }),
+    });
+    const prefs = persistState(
+      createReactiveState({ theme: 'light', fontSize: 14 }),
+      {
+        key: 'prefs',
+        storage,
+        version: 3,
+        migrations: {
+          2: (data) => ({ theme: data.dark ? 'dark' : 'light' }),
+          3: (data) => ({ ...data, fontSize: 16 }),
+        },
+      },
+    );
+
+    expect(prefs.value()).toEqual({ theme: 'dark', fontSize: 16 });
+  });
+
+  it('should debounce writes', () => {
+    vi.useFakeTimers();
+    const storage = createMemoryStorageAdapter();
+    const setItem = vi.spyOn(storage, 'setItem');
+    const text = persistState(createReactiveState(''), {
+      key: 'draft',
+      storage,
+      debounce: 200,
+    });
+
+    text.setValue('h');
+    text.setValue('hi');
+    expect(setItem).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(200);
+    expect(setItem).toHaveBeenCalledTimes(1);
+  });
+
+  it('should apply changes reported by other tabs', () => {
+    let notify: (value: string | null) => void = () => {};
+    const storage = {
+      ...createMemoryStorageAdapter(),
+      subscribe: (_key: string, callback: (value: string | null) => void) => {
+        notify = callback;
+        return () => {};
+      },
+    };
+    const cart = persistState(createReactiveState<string[]>([]), {
+      key: 'cart',
+      storage,
+    });
+
+    notify(JSON.stringify({ version: 0, data: ['book'] }));
+    expect(cart.value()).toEqual(['book']);
+  });
+
+  it('should persist to a JSON file with the file adapter', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'persist-'));
+    const filePath = path.join(dir, 'state.json');
+
+    const first = persistState(createReactiveState(1), {
+      key: 'counter',
+      storage: createFileStorageAdapter(filePath),
+    });
+    await first.ready;
+    first.setValue(42);
+    await first.flush();
+
+    const second = persistState(createReactiveState(0), {
+      key: 'counter',
+      storage: createFileStorageAdapter(filePath),
+    });
+    await second.ready;
+
+    expect(second.value()).toBe(42);
+    await fs.remove(dir);
+  });
+});
@@ -0,0 +1,139 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { act, createElement, Suspense } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { renderToString } from 'react-dom/server';
+import {
+  useValue,
+  useSelector,
+  useComputed,
+  useResource,
+} from '../../src/react/reactive-hooks';
+import { createResource } from '../../src/state/resource';
+import { batch, createReactiveState } from '../../src/state/reactive-state';
+
+describe('React Bindings', () => {
+  it('should render the current value of a reactive state', () => {
+    const count = createReactiveState(3);
+    const Counter = () => createElement('span', null, useValue(count));
+
+    expect(renderToString(createElement(Counter))).toBe('<span>3</span>');
+  });
+
+  it('should render a selected slice of state', () => {
+    const user = createReactiveState({ name: 'Ada', age: 36 });
+    const Name = () =>
+      createElement('span', null, useSelector(user, (u) => u.name));
+
+    expect(renderToString(createElement(Name))).toBe('<span>Ada</span>');
+  });
+
+  it('should render a computed value on the server', () => {
+    const price = createReactiveState(10);
+    const quantity = createReactiveState(3);
+    const Total = () =>
+      createElement(
+        'span',
+        null,
+        useComputed(() => price.value() * quantity.value()),
+      );
+
+    expect(renderToString(createElement(Total))).toBe('<span>30</span>');
+  });
+
+  it('should suspend while a resource is loading', async () => {
+    const user = createResource(
+      () => 1,
+      async (id) => `User ${id}`,
+    );
+    const Profile = () => createElement('span', null, useResource(user));
+    const render = () =>
+      renderToString(
+        createElement(
+          Suspense,
+          { fallback: createElement('i', null, 'loading') },
+          createElement(Profile),
+        ),
+      );
+
+    expect(render()).toContain('loading');
+    await user.state.value().promise;
+    expect(render()).toContain('<span>User 1</span>');
+  });
+});
+
+describe('React Bindings in the Browser', () => {
+  let container: HTMLElement;
+  let root: Root;
+
+  beforeAll(() => {
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+  });
+
+  const render = (element: ReturnType<typeof createElement>) => {
+    container = document.createElement('div');
+    root = createRoot(container);
+    act(() => root.render(element));
+  };
+
+  afterEach(() => {
+    act(() => root.unmount());
+  });
+
+  it('should re-render when the state changes', () => {
+    const count = createReactiveState(0);
+    let renders = 0;
+    const Counter = () => {
+      renders++;
+      return createElement('span', null, useValue(count));
+    };
+
+    render(createElement(Counter));
+    expect(container.textContent).toBe('0');
+
+    act(() => count.setValue(1));
+    expect(container.textContent).toBe('1');
+    expect(renders).toBe(2);
+  });
+
+  it('should skip re-renders when the selected slice is unchanged', () => {
+    const user = createReactiveState({ name: 'Ada', age: 36 });
+    let renders = 0;
+    const Name = () => {
+      renders++;
+      return createElement('span', null, useSelector(user, (u) => u.name));
+    };
+
+    render(createElement(Name));
+    act(() => user.setValue((u) => ({ ...u, age: 37 })));
+    expect(renders).toBe(1);
+
+    act(() => user.setValue((u) => ({ ...u, name: 'Grace' })));
+    expect(container.textContent).toBe('Grace');
+    expect(renders).toBe(2);
+  });
+
+  it('should re-render a computed value only when its result changes', () => {
+    const price = createReactiveState(10);
+    const quantity = createReactiveState(3);
+    let renders = 0;
+    const Total = () => {
+      renders++;
+      return createElement('span', null, useComputed(() => price.value() * quantity.value()));
+    };
+
+    render(createElement(Total));
+    act(() =>
+      batch(() => {
+        price.setValue(15);
+        quantity.setValue(2);
+      }),
+    );
+    expect(container.textContent).toBe('30');
+    expect(renders).toBe(1);
+
+    act(() => quantity.setValue(4));
+    expect(container.textContent).toBe('60');
+    expect(renders).toBe(2);
+  });
+});
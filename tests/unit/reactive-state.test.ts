@@ -1,5 +1,23 @@
 import { describe, it, expect } from 'vitest';
-import { createReactiveState, createDerivedState } from '../../src/state/reactive-state';
+import {
+  createReactiveState,
+  createDerivedState,
+  createCombinedState,
+  createComputed,
+  createReactiveEffect,
+  untrack,
+  batch,
+  createScope,
+  createRoot,
+  onCleanup,
+  configureScheduler,
+  flushEffects,
+} from '../../src/state/reactive-state';
+import {
+  deepEqual,
+  shallowEqual,
+  structuralEqual,
+} from '../../src/state/equality';
 
 describe('Reactive State System', () => {
   it('should create reactive state with initial value', () => {
@@ -33,3 +51,485 @@ describe('Reactive State System', () => {
     expect(typeof state.derive).toBe('function');
   });
 });
+
+describe('Dependency Tracking', () => {
+  it('should recompute computed values when a read state changes', () => {
+    const a = createReactiveState(1);
+    const b = createReactiveState(2);
+    const sum = createComputed(() => a.value() + b.value());
+
+    expect(sum.value()).toBe(3);
+    a.setValue(10);
+    expect(sum.value()).toBe(12);
+    b.setValue(5);
+    expect(sum.value()).toBe(15);
+  });
+
+  it('should re-run effects when their dependencies change', () => {
+    const count = createReactiveState(0);
+    const seen: number[] = [];
+
+    const stop = createReactiveEffect(() => {
+      seen.push(count.value());
+    });
+
+    count.setValue(1);
+    count.setValue(2);
+    stop();
+    count.setValue(3);
+
+    expect(seen).toEqual([0, 1, 2]);
+  });
+
+  it('should keep running effects after one of them throws', () => {
+    const count = createReactiveState(0);
+    const first: number[] = [];
+    const second: number[] = [];
+
+    createReactiveEffect(() => {
+      const value = count.value();
+      first.push(value);
+      if (value === 1) throw new Error('effect failed');
+    });
+    createReactiveEffect(() => {
+      second.push(count.value());
+    });
+
+    expect(() => count.setValue(1)).toThrow('effect failed');
+    count.setValue(2);
+    count.setValue(3);
+
+    expect(first).toEqual([0, 1, 2, 3]);
+    expect(second).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should re-collect dynamic dependencies on every run', () => {
+    const useA = createReactiveState(true);
+    const a = createReactiveState('a');
+    const b = createReactiveState('b');
+    let runs = 0;
+
+    createReactiveEffect(() => {
+      runs++;
+      if (useA.value()) {
+        a.value();
+      } else {
+        b.value();
+      }
+    });
+
+    b.setValue('b2');
+    expect(runs).toBe(1);
+
+    useA.setValue(false);
+    expect(runs).toBe(2);
+
+    a.setValue('a2');
+    expect(runs).toBe(2);
+
+    b.setValue('b3');
+    expect(runs).toBe(3);
+  });
+
+  it('should propagate through chains of derived states', () => {
+    const base = createReactiveState(2);
+    const doubled = base.derive((v) => v * 2);
+    const quadrupled = createComputed(() => doubled.value() * 2);
+    const values: number[] = [];
+
+    quadrupled.subscribe((v) => values.push(v));
+    base.setValue(3);
+
+    expect(quadrupled.value()).toBe(12);
+    expect(values).toEqual([12]);
+  });
+
+  it('should not track reads inside untrack', () => {
+    const a = createReactiveState(1);
+    const b = createReactiveState(1);
+    const result = createComputed(() => a.value() + untrack(() => b.value()));
+
+    b.setValue(5);
+    expect(result.value()).toBe(2);
+    a.setValue(2);
+    expect(result.value()).toBe(7);
+  });
+});
+
+describe('Batching', () => {
+  it('should defer notifications until the batch commits', () => {
+    const first = createReactiveState('John');
+    const last = createReactiveState('Doe');
+    const seen: string[] = [];
+
+    createReactiveEffect(() => {
+      seen.push(`${first.value()} ${last.value()}`);
+    });
+
+    batch(() => {
+      first.setValue('Jane');
+      last.setValue('Roe');
+      expect(seen).toEqual(['John Doe']);
+    });
+
+    expect(seen).toEqual(['John Doe', 'Jane Roe']);
+  });
+
+  it('should recompute each derived state once without glitches', () => {
+    const base = createReactiveState(1);
+    const left = base.derive((v) => v + 1);
+    const right = base.derive((v) => v * 10);
+    let computations = 0;
+    const combined = createComputed(() => {
+      computations++;
+      return `${left.value()}:${right.value()}`;
+    });
+    const seen: string[] = [];
+
+    combined.subscribe((v) => seen.push(v));
+    computations = 0;
+
+    base.setValue(2);
+    expect(seen).toEqual(['3:20']);
+    expect(computations).toBe(1);
+  });
+
+  it('should only commit once for nested batches', () => {
+    const count = createReactiveState(0);
+    const seen: number[] = [];
+    count.subscribe((v) => seen.push(v));
+
+    batch(() => {
+      count.setValue(1);
+      batch([() => count.setValue(2), () => count.setValue(3)]);
+      expect(seen).toEqual([]);
+    });
+
+    expect(seen).toEqual([3]);
+  });
+
+  it('should not notify when a batch restores the original value', () => {
+    const count = createReactiveState(0);
+    const seen: number[] = [];
+    count.subscribe((v) => seen.push(v));
+
+    batch(() => {
+      count.setValue(5);
+      count.setValue(0);
+    });
+
+    expect(seen).toEqual([]);
+  });
+
+  it('should roll back every write when an update throws', () => {
+    const a = createReactiveState(1);
+    const b = createReactiveState(1);
+    const seen: number[] = [];
+    a.subscribe((v) => seen.push(v));
+
+    expect(() =>
+      batch(
+        () => {
+          a.setValue(2);
+          b.setValue(2);
+          throw new Error('validation failed');
+        },
+        { rollback: true },
+      ),
+    ).toThrow('validation failed');
+
+    expect(a.value()).toBe(1);
+    expect(b.value()).toBe(1);
+    expect(seen).toEqual([]);
+  });
+
+  it('should roll back writes from a nested batch that threw without rollback', () => {
+    const a = createReactiveState(0);
+
+    expect(() =>
+      batch(
+        () =>
+          batch(() => {
+            a.setValue(1);
+            throw new Error('nested failure');
+          }),
+        { rollback: true },
+      ),
+    ).toThrow('nested failure');
+
+    expect(a.value()).toBe(0);
+  });
+});
+
+describe('Combined State', () => {
+  it('should derive a value from a tuple of states', () => {
+    const items = createReactiveState([10, 20]);
+    const discount = createReactiveState(0.5);
+    const total = createCombinedState([items, discount], ([items, discount]) =>
+      items.reduce((sum, price) => sum + price, 0) * discount,
+    );
+
+    expect(total.value()).toBe(15);
+    discount.setValue(1);
+    expect(total.value()).toBe(30);
+  });
+
+  it('should derive a record of values when no function is given', () => {
+    const price = createReactiveState(100);
+    const shipping = createReactiveState(5);
+    const order = createCombinedState({ price, shipping });
+
+    expect(order.value()).toEqual({ price: 100, shipping: 5 });
+    shipping.setValue(0);
+    expect(order.value()).toEqual({ price: 100, shipping: 0 });
+  });
+
+  it('should stop updating from every source once disposed', () => {
+    const a = createReactiveState(1);
+    const b = createReactiveState(2);
+    const sum = createCombinedState([a, b], ([a, b]) => a + b);
+    const seen: number[] = [];
+    sum.subscribe((v) => seen.push(v));
+
+    a.setValue(2);
+    sum.dispose!();
+    a.setValue(3);
+    b.setValue(3);
+
+    expect(seen).toEqual([4]);
+    expect(sum.value()).toBe(4);
+  });
+});
+
+describe('Ownership Scopes', () => {
+  it('should dispose everything created inside a root together', () => {
+    const source = createReactiveState(1);
+    const seen: number[] = [];
+    const cleanups: string[] = [];
+
+    const dispose = createRoot((dispose) => {
+      const doubled = source.derive((v) => v * 2);
+      createReactiveEffect(() => {
+        seen.push(doubled.value());
+      });
+      onCleanup(() => cleanups.push('root'));
+      return dispose;
+    });
+
+    source.setValue(2);
+    dispose();
+    source.setValue(3);
+
+    expect(seen).toEqual([2, 4]);
+    expect(cleanups).toEqual(['root']);
+  });
+
+  it('should run effect cleanups before re-running and on stop', () => {
+    const count = createReactiveState(0);
+    const log: string[] = [];
+
+    const stop = createReactiveEffect(() => {
+      const current = count.value();
+      log.push(`run ${current}`);
+      return () => log.push(`cleanup ${current}`);
+    });
+
+    count.setValue(1);
+    stop();
+
+    expect(log).toEqual(['run 0', 'cleanup 0', 'run 1', 'cleanup 1']);
+  });
+
+  it('should dispose effects created by a previous effect run', () => {
+    const outer = createReactiveState(0);
+    const inner = createReactiveState(0);
+    let innerRuns = 0;
+
+    createReactiveEffect(() => {
+      outer.value();
+      createReactiveEffect(() => {
+        inner.value();
+        innerRuns++;
+      });
+    });
+
+    outer.setValue(1);
+    innerRuns = 0;
+    inner.setValue(1);
+
+    expect(innerRuns).toBe(1);
+  });
+
+  it('should dispose child scopes with their parent', () => {
+    const parent = createScope();
+    const log: string[] = [];
+
+    parent.run(() => {
+      const child = createScope();
+      child.onCleanup(() => log.push('child'));
+      const detached = createScope({ detached: true });
+      detached.onCleanup(() => log.push('detached'));
+    });
+    parent.onCleanup(() => log.push('parent'));
+    parent.dispose();
+
+    expect(log).toEqual(['parent', 'child']);
+    expect(parent.isDisposed).toBe(true);
+  });
+});
+
+describe('Equality', () => {
+  it('should skip equal-but-new objects with shallow equality', () => {
+    const state = createReactiveState({ a: 1, b: 2 }, { equals: 'shallow' });
+    const original = state.value();
+    const values: unknown[] = [];
+    state.subscribe((value) => values.push(value));
+
+    state.setValue({ a: 1, b: 2 });
+    expect(state.value()).toBe(original);
+    expect(values).toEqual([]);
+
+    state.setValue({ a: 1, b: 3 });
+    expect(values).toEqual([{ a: 1, b: 3 }]);
+  });
+
+  it('should keep the previous derived value when the result is equal', () => {
+    const todos = createReactiveState([{ id: 1, done: false }]);
+    let runs = 0;
+    const ids = createDerivedState((list) => list.map((todo) => todo.id), todos, {
+      equals: 'deep',
+    });
+    const firstIds = ids.value();
+    const count = createComputed(() => {
+      runs++;
+      return ids.value().length;
+    });
+    count.subscribe(() => {});
+    runs = 0;
+
+    todos.setValue([{ id: 1, done: true }]);
+
+    expect(ids.value()).toBe(firstIds);
+    expect(runs).toBe(0);
+  });
+
+  it('should accept a custom comparator or always notify with false', () => {
+    const caseless = createReactiveState('Hello', {
+      equals: (a, b) => a.toLowerCase() === b.toLowerCase(),
+    });
+    caseless.setValue('HELLO');
+    expect(caseless.value()).toBe('Hello');
+
+    const ticks = createReactiveState(0, { equals: false });
+    let notified = 0;
+    ticks.subscribe(() => notified++);
+    ticks.setValue(0);
+    expect(notified).toBe(1);
+  });
+
+  it('should tell deep and structural equality apart', () => {
+    class Point {
+      constructor(
+        public x: number,
+        public y: number,
+      ) {}
+    }
+
+    expect(shallowEqual({ a: { b: 1 } }, { a: { b: 1 } })).toBe(false);
+    expect(deepEqual({ a: { b: 1 } }, { a: { b: 1 } })).toBe(true);
+    expect(
+      deepEqual(new Map([['k', new Set([1])]]), new Map([['k', new Set([1])]])),
+    ).toBe(true);
+    expect(deepEqual(new Date(0), new Date(1))).toBe(false);
+    expect(deepEqual<object>(new Point(1, 2), { x: 1, y: 2 })).toBe(false);
+    expect(structuralEqual<object>(new Point(1, 2), { x: 1, y: 2 })).toBe(true);
+  });
+
+  it('should compare Set members and Map values recursively', () => {
+    expect(deepEqual(new Set([{ a: 1 }]), new Set([{ a: 1 }]))).toBe(true);
+    expect(deepEqual(new Set([{ a: 1 }]), new Set([{ a: 2 }]))).toBe(false);
+    expect(
+      structuralEqual(new Set([{ a: 1 }, { a: 2 }]), new Set([{ a: 2 }, { a: 1 }])),
+    ).toBe(true);
+    // Each member is matched at most once
+    expect(
+      deepEqual(new Set([{ a: 1 }, { a: 2 }]), new Set([{ a: 1 }, { a: 1 }])),
+    ).toBe(false);
+    expect(deepEqual(new Set([1, 'x']), new Set([1, 'y']))).toBe(false);
+
+    expect(deepEqual(new Map([['k', { a: 1 }]]), new Map([['k', { a: 1 }]]))).toBe(true);
+    expect(deepEqual(new Map([['k', { a: 1 }]]), new Map([['j', { a: 1 }]]))).toBe(false);
+
+    const tags = createReactiveState(new Set([{ name: 'a' }]), { equals: 'deep' });
+    let notified = 0;
+    tags.subscribe(() => notified++);
+    tags.setValue(new Set([{ name: 'a' }]));
+    expect(notified).toBe(0);
+  });
+});
+
+describe('Scheduling', () => {
+  it('should coalesce changes into one run of a deferred effect', async () => {
+    const query = createReactiveState('');
+    let derivedRuns = 0;
+    const upper = createComputed(() => {
+      derivedRuns++;
+      return query.value().toUpperCase();
+    });
+    const seen: string[] = [];
+    createReactiveEffect(() => {
+      seen.push(upper.value());
+    }, { priority: 'high' });
+    derivedRuns = 0;
+
+    query.setValue('a');
+    query.setValue('ab');
+    query.setValue('abc');
+    expect(seen).toEqual(['']);
+    // Derived states stay lazy until the effect pulls them
+    expect(derivedRuns).toBe(0);
+
+    await Promise.resolve();
+    expect(seen).toEqual(['', 'ABC']);
+    expect(derivedRuns).toBe(1);
+  });
+
+  it('should use the configured scheduler and flush on demand', () => {
+    const tasks: (() => void)[] = [];
+    configureScheduler({ low: (task) => tasks.push(task) });
+    try {
+      const count = createReactiveState(0);
+      const log: string[] = [];
+      createReactiveEffect(() => {
+        log.push(`low ${count.value()}`);
+      }, { priority: 'low' });
+      createReactiveEffect(() => {
+        log.push(`sync ${count.value()}`);
+      });
+
+      count.setValue(1);
+      expect(log).toEqual(['low 0', 'sync 0', 'sync 1']);
+      expect(tasks).toHaveLength(1);
+
+      flushEffects();
+      expect(log).toEqual(['low 0', 'sync 0', 'sync 1', 'low 1']);
+    } finally {
+      configureScheduler({ low: 'idle' });
+    }
+  });
+
+  it('should not run a deferred effect after it is disposed', async () => {
+    const count = createReactiveState(0);
+    let runs = 0;
+    const stop = createReactiveEffect(() => {
+      count.value();
+      runs++;
+    }, { priority: 'high' });
+
+    count.setValue(1);
+    stop();
+    await Promise.resolve();
+
+    expect(runs).toBe(1);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { createReactiveState } from '../../src/state/reactive-state';
+import { createResource } from '../../src/state/resource';
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+describe('Resources', () => {
+  it('should load a value from its source', async () => {
+    const userId = createReactiveState(1);
+    const user = createResource(
+      () => userId.value(),
+      async (id) => ({ id, name: `User ${id}` }),
+    );
+
+    expect(user.loading.value()).toBe(true);
+    await user.state.value().promise;
+
+    expect(user.value()).toEqual({ id: 1, name: 'User 1' });
+    expect(user.loading.value()).toBe(false);
+  });
+
+  it('should refetch when the source changes and abort the stale run', async () => {
+    const query = createReactiveState('a');
+    const requests: Record<string, ReturnType<typeof deferred<string>>> = {};
+    const signals: Record<string, AbortSignal> = {};
+    const results = createResource(
+      () => query.value(),
+      (q, { signal }) => {
+        requests[q] = deferred<string>();
+        signals[q] = signal;
+        return requests[q].promise;
+      },
+    );
+
+    query.setValue('ab');
+    expect(signals.a.aborted).toBe(true);
+
+    requests.ab.resolve('results for ab');
+    requests.a.resolve('results for a');
+    await results.state.value().promise;
+    await requests.a.promise;
+
+    expect(results.value()).toBe('results for ab');
+  });
+
+  it('should expose fetch errors as reactive state', async () => {
+    const resource = createResource(
+      () => true,
+      async () => {
+        throw new Error('network down');
+      },
+    );
+
+    await resource.state.value().promise;
+
+    expect((resource.error.value() as Error).message).toBe('network down');
+    expect(resource.loading.value()).toBe(false);
+  });
+
+  it('should skip fetching while the source is falsy', async () => {
+    const userId = createReactiveState<number | null>(null);
+    let calls = 0;
+    const user = createResource(
+      () => userId.value(),
+      async (id) => {
+        calls++;
+        return id * 2;
+      },
+    );
+
+    expect(user.loading.value()).toBe(false);
+    userId.setValue(21);
+    await user.state.value().promise;
+
+    expect(calls).toBe(1);
+    expect(user.value()).toBe(42);
+  });
+
+  it('should only refetch when the source result changes', async () => {
+    const filters = createReactiveState({ userId: 1, page: 1 });
+    const ids: number[] = [];
+    const user = createResource(
+      () => filters.value().userId,
+      async (id) => {
+        ids.push(id);
+        return id;
+      },
+    );
+    await user.state.value().promise;
+
+    filters.setValue((prev) => ({ ...prev, page: 2 }));
+    expect(user.loading.value()).toBe(false);
+    filters.setValue((prev) => ({ ...prev, userId: 2 }));
+    await user.state.value().promise;
+
+    expect(ids).toEqual([1, 2]);
+    expect(user.value()).toBe(2);
+  });
+
+  it('should refetch on demand and allow local mutation', async () => {
+    let version = 0;
+    const counter = createResource(
+      () => true,
+      async () => ++version,
+    );
+    await counter.state.value().promise;
+
+    await counter.refetch();
+    expect(counter.value()).toBe(2);
+
+    counter.setValue(100);
+    expect(counter.value()).toBe(100);
+  });
+});
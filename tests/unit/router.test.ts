@@ -1,5 +1,13 @@
-import { describe, it, expect } from 'vitest';
-import { createRouter, createRouteConfig, generateRoutes } from '../../src/routing/router';
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {
+  createRouter,
+  createRouteConfig,
+  generateRoutes,
+  RouteConflictError,
+} from '../../src/routing/router';
 
 describe('Router System', () => {
   it('should create route config', () => {
@@ -47,3 +55,144 @@ describe('Router System', () => {
     expect(config.pagesDir).toBe('./src/pages');
   });
 });
+
+describe('Filesystem Route Segments', () => {
+  let pagesDir: string;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    pagesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pages-'));
+    const files = [
+      'index.tsx',
+      'users/[userId].tsx',
+      'users/[userId]/posts/[postId].tsx',
+      'blog/[...path].tsx',
+      'docs/[[...section]].tsx',
+      '(marketing)/pricing.tsx',
+      '(marketing)/about/index.tsx',
+    ];
+    for (const file of files) {
+      await fs.outputFile(path.join(pagesDir, file), 'export default () => null;');
+    }
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await fs.remove(pagesDir);
+  });
+
+  it('should detect any bracket name and skip route groups', async () => {
+    const router = createRouter(createRouteConfig(pagesDir));
+    const routes = await router.generateRoutes(pagesDir);
+
+    expect(routes.map((route) => route.path).sort()).toEqual([
+      '/',
+      '/about',
+      '/blog/:path...',
+      '/docs/:section...?',
+      '/pricing',
+      '/users/:userId',
+      '/users/:userId/posts/:postId',
+    ]);
+  });
+
+  it('should match typed params for every segment kind', async () => {
+    const router = createRouter(createRouteConfig(pagesDir));
+    await router.generateRoutes(pagesDir);
+
+    const post = router.matchRoute<'/users/:userId/posts/:postId'>('/users/7/posts/hello%20world');
+    expect(post?.params).toEqual({ userId: '7', postId: 'hello world' });
+    const userId: string | undefined = post?.params?.userId;
+    expect(userId).toBe('7');
+
+    const blog = router.matchRoute<'/blog/:path...'>('/blog/2024/03/launch');
+    const segments: string[] | undefined = blog?.params?.path;
+    expect(segments).toEqual(['2024', '03', 'launch']);
+    expect(router.matchRoute('/blog')).toBeNull();
+
+    expect(router.matchRoute('/docs')?.params).toEqual({ section: [] });
+    expect(router.matchRoute('/docs/api/state')?.params).toEqual({ section: ['api', 'state'] });
+    expect(router.matchRoute('/pricing')?.component).toContain('(marketing)');
+  });
+});
+
+describe('Route Ranking', () => {
+  const createPages = async (files: string[]) => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ranked-pages-'));
+    for (const file of files) {
+      await fs.outputFile(path.join(dir, file), 'export default () => null;');
+    }
+    return dir;
+  };
+
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should prefer static over dynamic over catch-all, whatever the file order', async () => {
+    const dir = await createPages([
+      'users/[...rest].tsx',
+      'users/[id].tsx',
+      'users/[id]/edit.tsx',
+      'users/new.tsx',
+    ]);
+    try {
+      const router = createRouter(createRouteConfig(dir));
+      const routes = await router.generateRoutes(dir);
+
+      const readdir = fs.readdir.bind(fs);
+      const spy = vi
+        .spyOn(fs, 'readdir')
+        .mockImplementation((async (target: string) => (await readdir(target)).reverse()) as any);
+      const reversed = await generateRoutes(dir);
+      spy.mockRestore();
+
+      expect(routes.map((route) => route.path)).toEqual([
+        '/users/new',
+        '/users/:id/edit',
+        '/users/:id',
+        '/users/:rest...',
+      ]);
+      expect(reversed.map((route) => route.path)).toEqual(routes.map((route) => route.path));
+
+      expect(router.matchRoute('/users/new')?.path).toBe('/users/new');
+      expect(router.matchRoute('/users/7')?.params).toEqual({ id: '7' });
+      expect(router.matchRoute('/users/7/edit')?.path).toBe('/users/:id/edit');
+      expect(router.matchRoute('/users/7/posts')?.params).toEqual({ rest: ['7', 'posts'] });
+    } finally {
+      await fs.remove(dir);
+    }
+  });
+
+  it('should report routes that match the same URLs', async () => {
+    const dir = await createPages([
+      'users/[id].tsx',
+      'users/[slug].tsx',
+      'docs/index.tsx',
+      'docs/[[...section]].tsx',
+      'pricing.tsx',
+    ]);
+    try {
+      const error = await generateRoutes(dir).catch((error) => error);
+
+      expect(error).toBeInstanceOf(RouteConflictError);
+      expect(
+        (error as RouteConflictError).conflicts.map((conflict) =>
+          conflict.routes.map((route) => route.path).sort(),
+        ),
+      ).toEqual(
+        expect.arrayContaining([
+          ['/users/:id', '/users/:slug'],
+          ['/docs', '/docs/:section...?'],
+        ]),
+      );
+      expect((error as RouteConflictError).conflicts).toHaveLength(2);
+    } finally {
+      await fs.remove(dir);
+    }
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  schema,
+  createValidatedState,
+  SchemaValidationError,
+  Infer,
+} from '../../src/state/schema';
+import { StateWriteRejectedError } from '../../src/state/middleware';
+import { createReactiveBackendBinding } from '../../src/cross-stack/reactive-backend';
+
+const userSchema = schema.object({
+  name: schema.string({ min: 1 }),
+  age: schema.number({ integer: true, coerce: true }).optional(),
+  role: schema.union(schema.literal('admin'), schema.literal('member')),
+  tags: schema.array(schema.string()).default([]),
+});
+
+type User = Infer<typeof userSchema>;
+
+describe('Schema Validation', () => {
+  it('should parse, coerce and strip unknown keys', () => {
+    const user: User = userSchema.parse({
+      name: 'Ada',
+      age: '36',
+      role: 'admin',
+      extra: true,
+    });
+
+    expect(user).toEqual({ name: 'Ada', age: 36, role: 'admin', tags: [] });
+  });
+
+  it('should report issues with paths', () => {
+    const result = userSchema.safeParse({
+      name: '',
+      role: 'owner',
+      tags: ['ok', 3],
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues.map((issue) => issue.path)).toEqual([
+        ['name'],
+        ['role'],
+        ['tags', 1],
+      ]);
+    }
+    expect(() => userSchema.parse(null)).toThrow(SchemaValidationError);
+  });
+
+  it('should reject invalid writes and expose errors reactively', () => {
+    const user = createValidatedState(userSchema, {
+      name: 'Ada',
+      role: 'member',
+    });
+
+    expect(() =>
+      user.setValue({ name: '', role: 'member', tags: [] }),
+    ).toThrow(StateWriteRejectedError);
+    expect(user.value().name).toBe('Ada');
+    expect(user.isValid.value()).toBe(false);
+    expect(user.errors.value()[0].path).toEqual(['name']);
+
+    user.setValue((prev) => ({ ...prev, age: '40' as unknown as number }));
+    expect(user.value().age).toBe(40);
+    expect(user.errors.value()).toEqual([]);
+  });
+
+  it('should ignore invalid writes when asked to', () => {
+    const count = createValidatedState(schema.number({ min: 0 }), 1, {
+      onInvalid: 'ignore',
+    });
+
+    count.setValue(-1);
+
+    expect(count.value()).toBe(1);
+    expect(count.isValid.value()).toBe(false);
+  });
+
+  it('should keep malformed backend data out of a binding', async () => {
+    vi.useFakeTimers();
+    try {
+      const binding = createReactiveBackendBinding(
+        'schema-test',
+        { count: 0 },
+        { type: 'redis', realtime: false },
+        schema.object({ count: schema.number() }),
+      );
+      await expect(
+        binding.set({ count: 'many' as unknown as number }),
+      ).rejects.toThrow(SchemaValidationError);
+      expect(binding.get()).toEqual({ count: 0 });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should report malformed data received through sync', async () => {
+    vi.useFakeTimers();
+    try {
+      const config = { type: 'redis', realtime: false } as const;
+      const writer = createReactiveBackendBinding('schema-sync-test', { count: 0 }, config);
+      const written = writer.set({ count: 'many' as unknown as number });
+      await vi.advanceTimersByTimeAsync(100);
+      await written;
+
+      const reader = createReactiveBackendBinding(
+        'schema-sync-test',
+        { count: 0 },
+        config,
+        schema.object({ count: schema.number() }),
+      );
+      const reported: number[] = [];
+      reader.validationErrors.subscribe((issues) => reported.push(issues.length));
+
+      const synced = reader.sync();
+      await vi.advanceTimersByTimeAsync(50);
+      await synced;
+
+      expect(reader.get()).toEqual({ count: 0 });
+      expect(reader.validationErrors.value()[0].path).toEqual(['count']);
+      // Once for the initial sync, once for the explicit one
+      expect(reported).toEqual([1, 1]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
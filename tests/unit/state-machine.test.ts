@@ -1,5 +1,15 @@
-import { describe, it, expect } from 'vitest';
-import { createStateMachine, createToggleMachine, createLoadingMachine } from '../../src/state/state-machine';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createStateMachine,
+  createToggleMachine,
+  createLoadingMachine,
+  assign,
+  persistMachine,
+  createReactiveMachine,
+} from '../../src/state/state-machine';
+import { createComputed, createReactiveEffect, createRoot } from '../../src/state/reactive-state';
+import { createReactiveBackendBinding } from '../../src/cross-stack/reactive-backend';
+import { MachineSnapshot } from '../../src/state/statechart';
 
 describe('State Machine System', () => {
   it('should create basic state machine config', () => {
@@ -53,3 +63,538 @@ describe('State Machine System', () => {
     expect(typeof machine).toBe('object');
   });
 });
+
+describe('Statecharts', () => {
+  const createPlayer = (log: string[] = []) =>
+    createStateMachine({
+      initial: 'stopped',
+      states: {
+        stopped: { on: { PLAY: 'active', RESUME: 'active.hist' } },
+        active: {
+          initial: 'playing',
+          entry: () => log.push('enter active'),
+          exit: () => log.push('exit active'),
+          on: { STOP: 'stopped' },
+          states: {
+            playing: {
+              entry: () => log.push('enter playing'),
+              exit: () => log.push('exit playing'),
+              on: { PAUSE: 'paused' },
+            },
+            paused: { on: { PAUSE: 'playing' } },
+            hist: { type: 'history' },
+          },
+        },
+      },
+    });
+
+  it('should keep the flat transition form working', () => {
+    const changes: string[] = [];
+    const machine = createStateMachine(
+      'idle',
+      { attempts: 0 },
+      [
+        { from: 'idle', to: 'loading', event: 'fetch' },
+        {
+          from: 'loading',
+          to: 'idle',
+          event: 'retry',
+          guard: (context) => context.attempts < 1,
+          action: (context) => context.attempts++,
+        },
+      ],
+      (from, to) => changes.push(`${from}->${to}`),
+    );
+
+    expect(machine.can('retry')).toBe(false);
+    machine.send('fetch');
+    machine.send('retry');
+    machine.send('fetch');
+
+    expect(machine.context.attempts).toBe(1);
+    expect(() => machine.send('retry')).toThrow("Guard failed for event 'retry'");
+    expect(() => machine.send('fetch')).toThrow("Cannot send event 'fetch'");
+    expect(changes).toEqual(['idle->loading', 'loading->idle', 'idle->loading']);
+  });
+
+  it('should enter nested initial states and run entry/exit actions in order', () => {
+    const log: string[] = [];
+    const player = createPlayer(log);
+
+    player.send('PLAY');
+    expect(player.currentState).toBe('active.playing');
+    expect(player.value).toEqual({ active: 'playing' });
+    expect(player.matches('active')).toBe(true);
+
+    player.send('STOP');
+    expect(player.currentState).toBe('stopped');
+    expect(log).toEqual(['enter active', 'enter playing', 'exit playing', 'exit active']);
+  });
+
+  it('should resolve events against the deepest active state first', () => {
+    const machine = createStateMachine({
+      initial: 'form',
+      on: { NEXT: 'done' },
+      states: {
+        form: {
+          initial: 'name',
+          on: { NEXT: 'done' },
+          states: {
+            name: { on: { NEXT: 'email' } },
+            email: {},
+          },
+        },
+        done: { type: 'final' },
+      },
+    });
+
+    machine.send('NEXT');
+    expect(machine.currentState).toBe('form.email');
+    machine.send('NEXT');
+    expect(machine.currentState).toBe('done');
+    expect(machine.done).toBe(true);
+  });
+
+  it('should restore history states', () => {
+    const player = createPlayer();
+
+    player.send('PLAY');
+    player.send('PAUSE');
+    player.send('STOP');
+    player.send('RESUME');
+
+    expect(player.currentState).toBe('active.paused');
+  });
+
+  it('should run parallel regions independently', () => {
+    const machine = createStateMachine({
+      initial: 'editor',
+      states: {
+        editor: {
+          type: 'parallel',
+          on: { CLOSE: 'closed' },
+          states: {
+            bold: {
+              initial: 'off',
+              states: { off: { on: { BOLD: 'on' } }, on: { on: { BOLD: 'off' } } },
+            },
+            italic: {
+              initial: 'off',
+              states: {
+                off: { on: { ITALIC: 'on' } },
+                on: { on: { ITALIC: 'off', CLOSE: 'off' } },
+              },
+            },
+          },
+        },
+        closed: {},
+      },
+    });
+
+    machine.send('BOLD');
+    expect(machine.value).toEqual({ editor: { bold: 'on', italic: 'off' } });
+    expect(machine.currentState).toBe('editor');
+
+    // The deeper handler in one region preempts the parallel state's own
+    machine.send('ITALIC');
+    machine.send('CLOSE');
+    expect(machine.matches('editor.italic.off')).toBe(true);
+
+    machine.send('CLOSE');
+    expect(machine.currentState).toBe('closed');
+  });
+});
+
+describe('Machine Context and Events', () => {
+  interface Cart {
+    items: string[];
+    total: number;
+  }
+  type CartEvents = { ADD: { item: string; price: number }; CLEAR: undefined };
+
+  it('should update context immutably with assign', () => {
+    const machine = createStateMachine<string, keyof CartEvents, Cart, CartEvents>({
+      initial: 'shopping',
+      context: { items: [], total: 0 },
+      states: {
+        shopping: {
+          on: {
+            ADD: {
+              guard: (_context, event) => event.payload.price > 0,
+              actions: assign((context, event) => ({
+                items: [...context.items, event.payload.item],
+                total: context.total + event.payload.price,
+              })),
+            },
+            CLEAR: { actions: assign({ items: [], total: () => 0 }) },
+          },
+        },
+      },
+    });
+    const initial = machine.context;
+
+    machine.send('ADD', { item: 'book', price: 12 });
+    machine.send('ADD', { item: 'pen', price: 3 });
+
+    expect(machine.context).toEqual({ items: ['book', 'pen'], total: 15 });
+    expect(initial).toEqual({ items: [], total: 0 });
+    expect(machine.can('ADD', { item: 'gift', price: 0 })).toBe(false);
+
+    machine.send('CLEAR');
+    expect(machine.context.items).toEqual([]);
+  });
+
+  it('should pass payloads to flat-form guards and actions', () => {
+    const seen: number[] = [];
+    const machine = createStateMachine<
+      'idle' | 'counting',
+      'set' | 'stop',
+      { count: number },
+      { set: number; stop: undefined }
+    >(
+      'idle',
+      { count: 0 },
+      [
+        {
+          from: 'idle',
+          to: 'counting',
+          event: 'set',
+          guard: (_context, event) => event.type === 'set' && event.payload >= 0,
+          action: assign((_context, event) => ({
+            count: event.type === 'set' ? event.payload : 0,
+          })),
+        },
+        { from: 'counting', to: 'idle', event: 'stop' },
+      ],
+    );
+    machine.subscribe((_state, context) => seen.push(context.count));
+
+    expect(() => machine.send('set', -1)).toThrow('Guard failed');
+    machine.send('set', 5);
+    machine.send('stop');
+    machine.reset();
+
+    expect(seen).toEqual([5, 5, 0]);
+  });
+});
+
+describe('Machine Timers and Services', () => {
+  it('should take delayed transitions and cancel them on exit', () => {
+    vi.useFakeTimers();
+    try {
+      const machine = createStateMachine({
+        initial: 'waiting',
+        states: {
+          waiting: { after: { 3000: 'timeout' }, on: { ANSWER: 'answered' } },
+          answered: { on: { ASK: 'waiting' } },
+          timeout: {},
+        },
+      });
+
+      vi.advanceTimersByTime(2000);
+      machine.send('ANSWER');
+      machine.send('ASK');
+      vi.advanceTimersByTime(2000);
+      expect(machine.currentState).toBe('waiting');
+
+      vi.advanceTimersByTime(1000);
+      expect(machine.currentState).toBe('timeout');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should invoke promises with onDone and onError', async () => {
+    const loader = createLoadingMachine(async () => 'loaded');
+    loader.send('start');
+    expect(loader.currentState).toBe('loading');
+    await Promise.resolve();
+    expect(loader.currentState).toBe('success');
+    expect(loader.context.data).toBe('loaded');
+
+    const failing = createLoadingMachine(() => Promise.reject(new Error('offline')));
+    failing.send('start');
+    await Promise.resolve();
+    expect(failing.currentState).toBe('error');
+    expect((failing.context.error as Error).message).toBe('offline');
+  });
+
+  it('should ignore results of services whose state has exited', async () => {
+    let resolve: (value: string) => void = () => {};
+    let signal: AbortSignal | undefined;
+    const loader = createLoadingMachine((_context, helpers) => {
+      signal = helpers.signal;
+      return new Promise<string>((r) => (resolve = r));
+    });
+
+    loader.send('start');
+    loader.send('error', 'cancelled');
+    resolve('late');
+    await Promise.resolve();
+
+    expect(loader.currentState).toBe('error');
+    expect(loader.context.data).toBeUndefined();
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('should run callback services and stop child machines on exit', () => {
+    const cleanup = vi.fn();
+    const child = createStateMachine({
+      initial: 'working',
+      states: { working: { on: { FINISH: 'finished' } }, finished: { type: 'final' } },
+    });
+    const stopChild = vi.spyOn(child, 'stop');
+
+    const parent = createStateMachine({
+      initial: 'active',
+      states: {
+        active: {
+          invoke: [
+            {
+              src: (_context, _event, { send }) => {
+                send('TICK');
+                return cleanup;
+              },
+            },
+            { id: 'worker', src: () => child, onDone: 'complete' },
+          ],
+          on: { TICK: { actions: assign({ ticks: 1 }) }, CANCEL: 'idle' },
+        },
+        complete: {},
+        idle: {},
+      },
+    });
+    expect(parent.context).toEqual({ ticks: 1 });
+
+    child.send('FINISH');
+    expect(parent.currentState).toBe('complete');
+    expect(cleanup).toHaveBeenCalledTimes(1);
+    expect(stopChild).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report errors from delayed transitions and service results', async () => {
+    vi.useFakeTimers();
+    try {
+      const errors: unknown[] = [];
+      const timed = createStateMachine({
+        initial: 'waiting',
+        states: {
+          waiting: { after: { 1000: 'broken' } },
+          broken: {
+            entry: () => {
+              throw new Error('entry failed');
+            },
+          },
+        },
+      });
+      timed.onError((error) => errors.push(error));
+
+      vi.advanceTimersByTime(1000);
+      expect((errors[0] as Error).message).toBe('entry failed');
+
+      const loading = createStateMachine({
+        initial: 'loading',
+        states: {
+          loading: {
+            invoke: {
+              src: async () => 'data',
+              onDone: {
+                target: 'done',
+                actions: () => {
+                  throw new Error('onDone failed');
+                },
+              },
+            },
+          },
+          done: {},
+        },
+      });
+      const stopListening = loading.onError((error) => errors.push(error));
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect((errors[1] as Error).message).toBe('onDone failed');
+      expect(errors).toHaveLength(2);
+      stopListening();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('Machine Snapshots', () => {
+  const createWizard = (config: { version?: number; migrations?: Record<number, (s: MachineSnapshot) => MachineSnapshot> } = {}) =>
+    createStateMachine({
+      ...config,
+      initial: 'wizard',
+      context: { name: '' },
+      states: {
+        wizard: {
+          initial: 'account',
+          states: {
+            account: {
+              on: { NEXT: { target: 'profile', actions: assign<{ name: string }>({ name: (_c, e) => e.payload }) } },
+            },
+            profile: { on: { NEXT: 'review', BACK: 'account' } },
+            review: { on: { BACK: 'profile' } },
+            hist: { type: 'history' },
+          },
+          on: { PAUSE: 'paused' },
+        },
+        paused: { on: { RESUME: 'wizard.hist' } },
+      },
+    });
+
+  it('should restore state, context and history from a snapshot', () => {
+    const machine = createWizard();
+    machine.send('NEXT', 'Ada');
+    machine.send('PAUSE');
+
+    const snapshot = JSON.parse(JSON.stringify(machine.getSnapshot()));
+    expect(snapshot).toEqual({
+      version: 0,
+      value: 'paused',
+      context: { name: 'Ada' },
+      history: { 'wizard.hist': ['wizard.profile'] },
+    });
+
+    const resumed = createWizard();
+    const listener = vi.fn();
+    resumed.subscribe(listener);
+    resumed.restore(snapshot);
+    expect(resumed.currentState).toBe('paused');
+    expect(resumed.context.name).toBe('Ada');
+    expect(listener).toHaveBeenCalledWith('paused', { name: 'Ada' });
+
+    resumed.send('RESUME');
+    expect(resumed.currentState).toBe('wizard.profile');
+  });
+
+  it('should migrate older snapshots and reject unknown states', () => {
+    const machine = createWizard({
+      version: 2,
+      migrations: {
+        // Version 1 called the profile step "details"
+        2: (snapshot) => ({
+          ...snapshot,
+          value: JSON.parse(JSON.stringify(snapshot.value).replace('details', 'profile')),
+        }),
+      },
+    });
+
+    machine.restore({ version: 1, value: { wizard: 'details' }, context: { name: 'Ada' }, history: {} });
+    expect(machine.value).toEqual({ wizard: 'profile' });
+    expect(machine.getSnapshot().version).toBe(2);
+
+    expect(() =>
+      machine.restore({ version: 2, value: { wizard: 'payment' }, context: { name: '' }, history: {} }),
+    ).toThrow("State 'wizard.payment' does not exist in this machine");
+    expect(() => machine.restore({ version: 3, value: 'paused', context: { name: '' }, history: {} })).toThrow(
+      'newer than 2',
+    );
+    expect(machine.currentState).toBe('wizard.profile');
+
+    // A compound state without a child enters its initial state
+    machine.restore({ version: 2, value: 'wizard', context: { name: '' }, history: {} });
+    expect(machine.currentState).toBe('wizard.account');
+  });
+
+  it('should restart timers of restored states', () => {
+    vi.useFakeTimers();
+    try {
+      const machine = createStateMachine({
+        initial: 'editing',
+        states: { editing: { on: { SAVE: 'saved' } }, saved: { after: { 1000: 'editing' } } },
+      });
+      machine.restore({ version: 0, value: 'saved', context: undefined, history: {} });
+      vi.advanceTimersByTime(1000);
+      expect(machine.currentState).toBe('editing');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should resume from and write to a backend binding', () => {
+    vi.useFakeTimers();
+    try {
+      const binding = createReactiveBackendBinding<MachineSnapshot | null>(
+        'wizard',
+        { version: 0, value: { wizard: 'review' }, context: { name: 'Ada' }, history: {} },
+        { type: 'redis', realtime: false },
+      );
+      const machine = createWizard();
+      const stop = persistMachine(machine, binding);
+      expect(machine.currentState).toBe('wizard.review');
+
+      machine.send('BACK');
+      expect(binding.get()?.value).toEqual({ wizard: 'profile' });
+
+      // The local value updates right away; the backend write is still pending
+      void binding.set({ version: 0, value: 'paused', context: { name: 'Grace' }, history: {} });
+      expect(machine.currentState).toBe('paused');
+      expect(machine.context.name).toBe('Grace');
+
+      stop();
+      machine.send('RESUME');
+      expect(binding.get()?.value).toBe('paused');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('Reactive Machines', () => {
+  it('should expose state, context and matches as reactive states', () => {
+    const machine = createStateMachine<string, 'NEXT' | 'FINISH', { step: number }>({
+      initial: 'wizard',
+      context: { step: 1 },
+      states: {
+        wizard: {
+          initial: 'account',
+          states: {
+            account: { on: { NEXT: { target: 'profile', actions: assign({ step: 2 }) } } },
+            profile: { on: { FINISH: '#done' } },
+          },
+        },
+        done: { id: 'done', type: 'final' },
+      },
+    });
+    const reactive = createReactiveMachine(machine);
+    const label = createComputed(
+      () => `${reactive.state.value()} (step ${reactive.context.value().step})`,
+    );
+    const inProfile = vi.fn();
+    reactive.matches('wizard.profile').subscribe(inProfile);
+
+    expect(label.value()).toBe('wizard.account (step 1)');
+    expect(reactive.matches('wizard')).toBe(reactive.matches('wizard'));
+
+    machine.send('NEXT');
+    expect(label.value()).toBe('wizard.profile (step 2)');
+    expect(reactive.value.value()).toEqual({ wizard: 'profile' });
+    expect(inProfile).toHaveBeenLastCalledWith(true);
+
+    machine.send('FINISH');
+    expect(reactive.done.value()).toBe(true);
+    expect(inProfile).toHaveBeenLastCalledWith(false);
+    expect(inProfile).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop following the machine when its scope is disposed', () => {
+    const loader = createLoadingMachine();
+    const states: string[] = [];
+
+    const dispose = createRoot((dispose) => {
+      const reactive = createReactiveMachine(loader);
+      createReactiveEffect(() => {
+        states.push(reactive.state.value());
+      });
+      return dispose;
+    });
+
+    loader.send('start');
+    dispose();
+    loader.send('complete');
+
+    expect(states).toEqual(['idle', 'loading']);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createComputed,
+  createReactiveEffect,
+  createSelector,
+  createMemoizedSelector,
+} from '../../src/state/reactive-state';
+import { createStore } from '../../src/state/store';
+
+describe('Reactive Store', () => {
+  const createUserStore = () =>
+    createStore({
+      user: { name: 'Ada', email: 'ada@example.com' },
+      todos: [
+        { id: 1, text: 'Write docs', done: false },
+        { id: 2, text: 'Ship', done: false },
+      ],
+    });
+
+  it('should only notify readers of the changed path', () => {
+    const store = createUserStore();
+    let nameRuns = 0;
+    let emailRuns = 0;
+
+    createReactiveEffect(() => {
+      store.value().user.name;
+      nameRuns++;
+    });
+    createReactiveEffect(() => {
+      store.value().user.email;
+      emailRuns++;
+    });
+
+    store.set('user', 'name', 'Grace');
+
+    expect(nameRuns).toBe(2);
+    expect(emailRuns).toBe(1);
+    expect(store.value().user.name).toBe('Grace');
+  });
+
+  it('should merge replaced subtrees without notifying unchanged paths', () => {
+    const store = createUserStore();
+    let emailRuns = 0;
+
+    createReactiveEffect(() => {
+      store.value().user.email;
+      emailRuns++;
+    });
+
+    store.set('user', (user) => ({ ...user, name: 'Grace' }));
+    store.setValue((state) => ({ ...state, user: { ...state.user } }));
+
+    expect(emailRuns).toBe(1);
+    expect(store.value().user).toEqual({
+      name: 'Grace',
+      email: 'ada@example.com',
+    });
+  });
+
+  it('should track array items and length', () => {
+    const store = createUserStore();
+    const remaining = createComputed(
+      () => store.value().todos.filter((todo) => !todo.done).length,
+    );
+    let firstTextRuns = 0;
+
+    createReactiveEffect(() => {
+      store.value().todos[0].text;
+      firstTextRuns++;
+    });
+
+    store.set('todos', 1, 'done', true);
+    expect(remaining.value()).toBe(1);
+
+    store.set('todos', (todos) => [
+      ...todos,
+      { id: 3, text: 'Celebrate', done: false },
+    ]);
+    expect(remaining.value()).toBe(2);
+    expect(firstTextRuns).toBe(1);
+  });
+
+  it('should notify subscribers once per update', () => {
+    const store = createUserStore();
+    let notifications = 0;
+    store.subscribe(() => notifications++);
+
+    store.setValue({
+      user: { name: 'Grace', email: 'grace@example.com' },
+      todos: [],
+    });
+
+    expect(notifications).toBe(1);
+    expect(store.value().todos).toHaveLength(0);
+
+    store.set('user', 'name', 'Grace');
+    expect(notifications).toBe(1);
+  });
+
+  it('should work with createSelector and createMemoizedSelector', () => {
+    const store = createUserStore();
+    const name = createSelector(store, (state) => state.user.name);
+    const doneIds = createMemoizedSelector(
+      store,
+      (state) => state.todos.filter((t) => t.done).map((t) => t.id),
+      (a, b) => a.join() === b.join(),
+    );
+    const names: string[] = [];
+    name.subscribe((v) => names.push(v));
+
+    store.set('user', 'email', 'new@example.com');
+    store.set('user', 'name', 'Grace');
+    store.set('todos', 0, 'done', true);
+
+    expect(names).toEqual(['Grace']);
+    expect(doneIds.value()).toEqual([1]);
+  });
+
+  it('should reject direct writes', () => {
+    const store = createUserStore();
+    expect(() => {
+      (store.value().user as { name: string }).name = 'Eve';
+    }).toThrow('read-only');
+  });
+
+  it('should not write through to the initial value', () => {
+    const initial = { user: { name: 'Ada' } };
+    const first = createStore(initial);
+    const second = createStore(initial);
+
+    first.set('user', 'name', 'Grace');
+
+    expect(initial.user.name).toBe('Ada');
+    expect(second.value().user.name).toBe('Ada');
+  });
+
+  it('should copy values read from the store when inserting them', () => {
+    const store = createStore<{
+      items: { id: number }[];
+      selected?: { item: { id: number } };
+    }>({ items: [{ id: 1 }, { id: 2 }] });
+
+    store.set('selected', { item: store.value().items[0] });
+    store.set('selected', 'item', 'id', 5);
+    expect(store.value().selected?.item.id).toBe(5);
+    expect(store.value().items[0].id).toBe(1);
+
+    store.set('selected', 'item', store.value().items[1]);
+    expect(store.value().selected?.item.id).toBe(2);
+    expect(store.value().items.map((item) => item.id)).toEqual([1, 2]);
+  });
+});